@@ -1,14 +1,12 @@
-fn main() {
-    let message: String = "Hello, ScriptRust!";
+const MESSAGE: &str = "Hello, ScriptRust!";
 
-    fn greet(name: String) -> String {
-        format!("Hello, {}!", name)
+fn greet(name: String) -> String {
+    format!("Hello, {}!", name)
 }
 
-    println!("{:?}", message);
-
+fn main() {
+    println!("{:?}", MESSAGE);
     println!("{:?}", greet("World"));
-
     println!("{:?}", greet("Developer"));
-
 }
+
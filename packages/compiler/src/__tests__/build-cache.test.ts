@@ -0,0 +1,41 @@
+/**
+ * Tests for the build cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildCache, hashContents } from '../build-cache';
+
+describe('Build Cache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scriptrust-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should find entries again while their hash matches and their outputs exist', () => {
+    const output = path.join(directory, 'main.rs');
+    fs.writeFileSync(output, 'fn main() {}\n');
+    const file = path.join(directory, '.scriptrust-cache.json');
+
+    const cache = new BuildCache(file);
+    cache.store('main.ts', { hash: hashContents(['a']), outputs: [output], warnings: 2, check: 'passed' });
+    cache.save();
+
+    const reloaded = new BuildCache(file);
+    expect(reloaded.lookup('main.ts', hashContents(['a']))).toMatchObject({ warnings: 2, check: 'passed' });
+    expect(reloaded.lookup('main.ts', hashContents(['b']))).toBeUndefined();
+
+    fs.rmSync(output);
+    expect(reloaded.lookup('main.ts', hashContents(['a']))).toBeUndefined();
+  });
+
+  test('should keep the parts of a hash apart', () => {
+    expect(hashContents(['ab', 'c'])).not.toBe(hashContents(['a', 'bc']));
+  });
+});
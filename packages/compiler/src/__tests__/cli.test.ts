@@ -0,0 +1,156 @@
+/**
+ * Tests for the command line, run as a separate process on the compiled CLI
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import * as ts from 'typescript';
+
+const SOURCE_DIR = path.resolve(__dirname, '..');
+
+describe('CLI', () => {
+  let build: string;
+  let directory: string;
+
+  // Transpiles the sources once, as `tsc` would lay them out, next to the dependencies they import
+  beforeAll(() => {
+    build = fs.mkdtempSync(path.join(os.tmpdir(), 'scriptrust-cli-'));
+    const dist = path.join(build, 'dist');
+    fs.mkdirSync(dist);
+    for (const file of fs.readdirSync(SOURCE_DIR).filter(file => file.endsWith('.ts'))) {
+      const { outputText } = ts.transpileModule(fs.readFileSync(path.join(SOURCE_DIR, file), 'utf-8'), {
+        compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ESNext, esModuleInterop: true },
+      });
+      fs.writeFileSync(path.join(dist, file.replace(/\.ts$/, '.js')), outputText);
+    }
+    fs.writeFileSync(path.join(build, 'package.json'), '{ "type": "module" }\n');
+    fs.copyFileSync(path.join(SOURCE_DIR, '../cargo-dependencies.json'), path.join(build, 'cargo-dependencies.json'));
+    fs.symlinkSync(path.resolve(require.resolve('commander'), '../..'), path.join(build, 'node_modules'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(build, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scriptrust-cli-project-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function scriptrust(args: string[], input?: string): { status: number | null; stdout: string; stderr: string } {
+    const result = spawnSync(process.execPath, [path.join(build, 'dist/cli.js'), ...args], { cwd: directory, input, encoding: 'utf-8' });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+  }
+
+  function writeSource(file: string, contents: string): void {
+    fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+    fs.writeFileSync(path.join(directory, file), contents);
+  }
+
+  describe('Build summary and cache', () => {
+    beforeEach(() => {
+      writeSource('src/a.ts', 'function a(): number { return 1; }\n');
+      writeSource('src/b.ts', 'function b(): number { return 2; }\n');
+    });
+
+    test('should skip files unchanged since the last run', () => {
+      const first = scriptrust(['src', '--check', 'none']);
+      expect(first.status).toBe(0);
+      expect(first.stdout).toContain('2 file(s): 2 converted, 0 cached, 0 failed');
+      expect(fs.existsSync(path.join(directory, 'src/.scriptrust-cache.json'))).toBe(true);
+
+      const second = scriptrust(['src', '--check', 'none']);
+      expect(second.status).toBe(0);
+      expect(second.stdout).toMatch(/^src\/a\.ts\s+cached\s+0\s+0\s+skipped$/m);
+      expect(second.stdout).toContain('2 file(s): 0 converted, 2 cached, 0 failed');
+      expect(second.stdout).not.toContain('Converted to Rust');
+
+      writeSource('src/b.ts', 'function b(): number { return 3; }\n');
+      const third = scriptrust(['src', '--check', 'none']);
+      expect(third.stdout).toMatch(/^src\/b\.ts\s+converted/m);
+      expect(third.stdout).toContain('2 file(s): 1 converted, 1 cached, 0 failed');
+    });
+
+    test('should convert every file with --no-cache', () => {
+      scriptrust(['src', '--check', 'none']);
+      const result = scriptrust(['src', '--check', 'none', '--no-cache']);
+
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('2 file(s): 2 converted, 0 cached, 0 failed');
+    });
+
+    test('should convert a file again when its output was deleted', () => {
+      scriptrust(['src', '--check', 'none']);
+      fs.rmSync(path.join(directory, 'src/a.rs'));
+      const result = scriptrust(['src', '--check', 'none']);
+
+      expect(result.stdout).toMatch(/^src\/a\.ts\s+converted/m);
+      expect(result.stdout).toContain('2 file(s): 1 converted, 1 cached, 0 failed');
+      expect(fs.existsSync(path.join(directory, 'src/a.rs'))).toBe(true);
+    });
+
+    test('should fail the run, and cache nothing, for a file that does not compile', () => {
+      writeSource('src/b.ts', 'function b(: number {\n');
+      const first = scriptrust(['src', '--check', 'none']);
+      expect(first.status).toBe(1);
+      expect(first.stdout).toContain('2 file(s): 1 converted, 0 cached, 1 failed');
+
+      const second = scriptrust(['src', '--check', 'none']);
+      expect(second.stdout).toContain('2 file(s): 0 converted, 1 cached, 1 failed');
+    });
+  });
+
+  describe('Stdin', () => {
+    const SOURCE = 'let x: any = 1;\nfunction f(): number { return 1; }\n';
+
+    test('should write the Rust to stdout and diagnostics to stderr', () => {
+      const result = scriptrust(['-', '--check', 'none'], SOURCE);
+
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('fn f() -> f64 {');
+      expect(result.stdout).not.toContain('SR3004');
+      expect(result.stderr).toContain('warning[SR3004]');
+      expect(result.stderr).toContain('--> <stdin>:1:8');
+      expect(result.stderr).not.toContain('fn f()');
+    });
+
+    test('should fail on a syntax error, with the error and status on stderr', () => {
+      const result = scriptrust(['-', '--check', 'none'], 'function (\n');
+
+      expect(result.status).toBe(1);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).toContain('error[SR2001]');
+      expect(result.stderr).toContain('Compilation failed with 1 error(s)');
+    });
+
+    test('should print a --format json report to stderr, as the Rust goes to stdout', () => {
+      const result = scriptrust(['-', '--check', 'none', '--format', 'json'], SOURCE);
+
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('fn f() -> f64 {');
+      const report = JSON.parse(result.stderr);
+      expect(report.diagnostics).toEqual([expect.objectContaining({ file: '<stdin>', code: 'SR3004' })]);
+    });
+
+    test('should write to the file given with -o, and leave stdout to status messages', () => {
+      const result = scriptrust(['-', '--check', 'none', '-o', 'out.rs'], SOURCE);
+
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('Converted to Rust: out.rs');
+      expect(fs.readFileSync(path.join(directory, 'out.rs'), 'utf-8')).toContain('fn f() -> f64 {');
+    });
+
+    test('should reject stdin alongside other inputs', () => {
+      writeSource('main.ts', SOURCE);
+      const result = scriptrust(['-', 'main.ts'], SOURCE);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('- (stdin) must be the only input');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for compiler configuration
+ */
+
+import { Compiler } from '../compiler';
+import { applyLints, parseConfig } from '../config';
+import { Diagnostic, DiagnosticCode } from '../diagnostics';
+
+describe('Configuration', () => {
+  test('should parse a complete config file', () => {
+    const config = parseConfig(JSON.stringify({
+      include: ['src/**/*.ts'],
+      outDir: 'rust',
+      target: 'lib',
+      edition: '2021',
+      numbers: { float: 'f32', integer: 'i32' },
+      typeMappings: { Date: 'chrono::DateTime<chrono::Utc>' },
+      decorations: ['mut', 'immutable'],
+      lints: { SR3002: 'deny' },
+      publicFields: false,
+    }));
+
+    expect(config.target).toBe('lib');
+    expect(config.numbers).toEqual({ float: 'f32', integer: 'i32' });
+  });
+
+  test('should name the offending field of an invalid config', () => {
+    expect(() => parseConfig('{ "target": "exe" }')).toThrow('scriptrust.config.json: "target" must be "bin" or "lib"');
+    expect(() => parseConfig('{ "numbers": { "integer": "f32" } }')).toThrow('"numbers.integer" must be an integer type');
+    expect(() => parseConfig('{ "lints": { "SR3002": "error" } }')).toThrow('"lints" must map diagnostic codes');
+    expect(() => parseConfig('{ "outdir": "rust" }', 'app/scriptrust.config.json')).toThrow('app/scriptrust.config.json: unknown option "outdir"');
+    expect(() => parseConfig('{ "include": ')).toThrow('scriptrust.config.json: ');
+    expect(() => parseConfig('{ "decorations": ["mut", "imutable"] }')).toThrow('unknown decoration "imutable" in "decorations"; did you mean "immutable"?');
+    expect(() => parseConfig('{ "lints": { "SR3O04": "deny" } }')).toThrow('unknown diagnostic "SR3O04" in "lints"; did you mean "SR3004"?');
+    expect(() => parseConfig('{ "lints": { "LossyTranslaton": "deny" } }')).toThrow('unknown diagnostic "LossyTranslaton" in "lints"; did you mean "LossyTranslation"?');
+    expect(() => parseConfig('{ "lints": { "Everything": "allow" } }')).toThrow(/unknown diagnostic "Everything" in "lints"$/);
+    expect(() => parseConfig('null')).toThrow('scriptrust.config.json: expected an object');
+    expect(() => parseConfig('["src"]')).toThrow('scriptrust.config.json: expected an object');
+    expect(() => parseConfig('{ "edition": 2021 }')).toThrow('"edition" must be one of 2015, 2018, 2021, 2024');
+    expect(() => parseConfig('{ "publicFields": "no" }')).toThrow('"publicFields" must be true or false');
+  });
+
+  test('should return only the validated fields', () => {
+    const config = parseConfig('{ "outDir": "rust", "lints": { "LossyTranslation": "allow" } }');
+    expect(config).toEqual({ outDir: 'rust', lints: { LossyTranslation: 'allow' } });
+  });
+
+  test('should apply lint levels by code or name, leaving errors alone', () => {
+    const diagnostics: Diagnostic[] = [
+      { code: DiagnosticCode.StatementInModule, severity: 'warning', message: 'a' },
+      { code: DiagnosticCode.CircularImport, severity: 'warning', message: 'b' },
+      { code: DiagnosticCode.ConflictingMain, severity: 'error', message: 'c' },
+    ];
+
+    const result = applyLints(diagnostics, { SR3002: 'deny', CircularImport: 'allow', ConflictingMain: 'allow' });
+    expect(result.map(diagnostic => [diagnostic.message, diagnostic.severity])).toEqual([['a', 'error'], ['c', 'error']]);
+  });
+});
+
+describe('Compiler Options', () => {
+  test('should use configured numeric defaults, type mappings and field visibility', () => {
+    const compiler = new Compiler({
+      numbers: { float: 'f32', integer: 'i32' },
+      typeMappings: { Date: 'chrono::DateTime<chrono::Utc>', Dict: 'std::collections::BTreeMap' },
+      publicFields: false,
+    });
+    const { code } = compiler.compileToRust(`class Event {
+  at: Date;
+  tags: Dict<string, number>;
+  weight: number;
+}
+function count(): void {
+  let total = 0;
+  for (let i = 0; i < 3; i++) { total += i; }
+  console.log(total);
+}`);
+
+    expect(code).toContain('    at: chrono::DateTime<chrono::Utc>,\n');
+    expect(code).toContain('    tags: std::collections::BTreeMap<String, f32>,\n');
+    expect(code).toContain('    weight: f32,\n');
+    expect(code).toContain('let total = 0i32;');
+  });
+
+  test('should leave top-level statements out of a library and give a binary an entry point', () => {
+    const source = 'function helper(): void {}\nconsole.log("hi");';
+
+    const lib = new Compiler({ target: 'lib' }).compileToRust(source);
+    expect(lib.code).not.toContain('fn main');
+    expect(lib.diagnostics.map(diagnostic => diagnostic.code)).toEqual([DiagnosticCode.StatementInModule]);
+
+    const bin = new Compiler({ target: 'bin' }).compileToRust('function helper(): void {}');
+    expect(bin.code).toContain('fn main() {}');
+  });
+
+  test('should ignore decorations that are not enabled, with a warning', () => {
+    const result = new Compiler({ decorations: ['immutable'] }).compileToRust(`function f(): void {
+  /* xxx, mut: counter */
+  let x = 1;
+  console.log(x);
+}`);
+
+    expect(result.code).not.toContain('let mut x');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.DisabledDecoration,
+      severity: 'warning',
+      span: { start: { line: 2, column: 3 } },
+    });
+  });
+
+  test('should turn denied warnings into errors', () => {
+    const result = new Compiler({ target: 'lib', lints: { StatementInModule: 'deny' } }).compileToRust('console.log(1);');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe(DiagnosticCode.StatementInModule);
+  });
+
+  test('should deny lossy translations by their code', () => {
+    const result = new Compiler({ lints: { SR3004: 'deny' } }).compileToRust('function f(value: any): void {}');
+    expect(result.errors.map(error => error.code)).toEqual([DiagnosticCode.LossyTranslation]);
+  });
+});
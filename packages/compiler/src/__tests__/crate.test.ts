@@ -0,0 +1,59 @@
+/**
+ * Tests for Cargo crate output
+ */
+
+import { Compiler } from '../compiler';
+import { buildCrate, inferDependencies, packageName } from '../crate';
+
+describe('Crates', () => {
+  const compiler = new Compiler();
+  const dependencies = {
+    tokio: { version: '1.38.0', features: ['macros', 'rt-multi-thread'] },
+    serde: { version: '1.0.203', features: ['derive'] },
+    serde_json: { version: '1.0.117' },
+  };
+
+  test('should name the package after the input file', () => {
+    expect(packageName('src/hello.ts')).toBe('hello');
+    expect(packageName('/work/My App.ts')).toBe('my-app');
+    expect(packageName('2048.ts')).toBe('app-2048');
+  });
+
+  test('should write a binary crate with the dependencies the translation uses', () => {
+    const { code } = compiler.compileToRust(`async function main(): Promise<void> {
+  console.log(JSON.stringify([1, 2]));
+}
+main();`);
+
+    expect(inferDependencies(code)).toEqual(['tokio', 'serde', 'serde_json']);
+    expect(buildCrate(code, { name: 'app', dependencies })).toEqual([
+      {
+        path: 'Cargo.toml',
+        contents: `[package]
+name = "app"
+version = "0.1.0"
+edition = "2021"
+
+[dependencies]
+tokio = { version = "1.38.0", features = ["macros", "rt-multi-thread"] }
+serde = { version = "1.0.203", features = ["derive"] }
+serde_json = { version = "1.0.117" }
+`,
+      },
+      { path: 'src/main.rs', contents: code },
+    ]);
+  });
+
+  test('should write a library crate when there is no entry point', () => {
+    const { code } = compiler.compileToRust('export function add(a: number, b: number): number {\n  return a + b;\n}');
+    const files = buildCrate(code, { name: 'math', dependencies });
+
+    expect(files.map(file => file.path)).toEqual(['Cargo.toml', 'src/lib.rs']);
+    expect(files[0].contents).toMatch(/\[dependencies\]\n$/);
+  });
+
+  test('should refuse a dependency with no pinned version', () => {
+    expect(() => buildCrate('#[tokio::main]\nasync fn main() {}\n', { name: 'app', dependencies: {} }))
+      .toThrow('No pinned version for crate `tokio`');
+  });
+});
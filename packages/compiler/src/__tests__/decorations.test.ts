@@ -0,0 +1,72 @@
+/**
+ * Tests for the decoration keyword registry
+ */
+
+import { Compiler } from '../compiler';
+import { suggestDecorationKeyword } from '../decorations';
+import { DiagnosticCode } from '../diagnostics';
+
+describe('Decorations', () => {
+  test('should suggest the closest known keyword', () => {
+    expect(suggestDecorationKeyword('mutt')).toBe('mut');
+    expect(suggestDecorationKeyword('imutable')).toBe('immutable');
+    expect(suggestDecorationKeyword('Pure')).toBe('pure');
+    expect(suggestDecorationKeyword('readonly')).toBeUndefined();
+  });
+
+  test('should warn about unknown keywords instead of ignoring them', () => {
+    const result = new Compiler().compileToRust(`function f(): void {
+  /* xxx, mutt: counter */
+  let x = 1;
+  console.log(x);
+}`);
+
+    expect(result.code).not.toContain('let mut x');
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      code: DiagnosticCode.UnknownDecoration,
+      severity: 'warning',
+      message: 'Unknown decoration `mutt` has no effect',
+      span: expect.objectContaining({ start: expect.objectContaining({ line: 2, column: 3 }) }),
+      fix: { message: 'did you mean `mut`?' },
+    })]);
+  });
+
+  test('should warn about decorations where they do not apply, and invalid values', () => {
+    const result = new Compiler().compileToRust(`/* xxx, pure: no state */
+class Counter {
+  /* xxx, ownership: shared */
+  bump(/* xxx, type: int */ by: number): void {}
+}
+/* xxx, ownership: owned */
+class Resource {}`);
+
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      [DiagnosticCode.MisplacedDecoration, 'Decoration `pure` does not apply to a class and has no effect'],
+      [DiagnosticCode.InvalidDecorationValue, '`shared` is not a valid value for decoration `ownership`'],
+      [DiagnosticCode.InvalidDecorationValue, '`int` is not a valid value for decoration `type`'],
+    ]);
+    expect(result.diagnostics[1].fix?.message).toBe('expected one of owned, borrowed, moved');
+  });
+
+  test('should keep the decorations of a method with parameters on the method', () => {
+    const result = new Compiler().compileToRust(`class Calculator {
+  /* xxx, pure: no side effects */
+  add(a: number, b: number): number {
+    return a + b;
+  }
+  /* xxx, throws: ParseError */
+  parse(s: string): number {
+    return 0;
+  }
+  /* xxx, mut: grows the list */
+  push(v: number): void {}
+}`);
+
+    expect(result.code).toContain('pub fn add(&self, a: f64, b: f64) -> f64');
+    expect(result.code).toContain('pub fn parse(&mut self, s: String) -> Result<f64, ParseError>');
+    expect(result.code).toContain('pub fn push(&mut self, v: f64)');
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      [DiagnosticCode.MisplacedDecoration, 'Decoration `mut` does not apply to a method and has no effect'],
+    ]);
+  });
+});
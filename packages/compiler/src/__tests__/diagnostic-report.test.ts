@@ -0,0 +1,56 @@
+/**
+ * Tests for JSON and SARIF diagnostic reports
+ */
+
+import { formatDiagnosticsJson, formatDiagnosticsSarif } from '../diagnostic-report';
+import { Diagnostic, DiagnosticCode } from '../diagnostics';
+
+const span = (line: number, start: number, end: number) => ({
+  start: { line, column: start, offset: 0 },
+  end: { line, column: end, offset: 0 },
+});
+
+const diagnostics: Diagnostic[] = [
+  {
+    code: DiagnosticCode.UnexpectedToken,
+    severity: 'error',
+    message: 'Expected ), found {',
+    span: span(3, 14, 15),
+    fix: { message: 'insert `)`', replacement: ')', span: span(3, 14, 14) },
+    file: 'src/main.ts',
+  },
+  { code: DiagnosticCode.CircularImport, severity: 'warning', message: 'Circular import', file: 'src/util.ts' },
+];
+
+describe('Diagnostic Reports', () => {
+  test('should list every diagnostic with its file, span, code and severity', () => {
+    const report = JSON.parse(formatDiagnosticsJson(diagnostics));
+
+    expect(report.summary).toEqual({ errors: 1, warnings: 1, infos: 0 });
+    expect(report.diagnostics[0]).toMatchObject({
+      file: 'src/main.ts',
+      code: 'SR2001',
+      name: 'UnexpectedToken',
+      severity: 'error',
+      span: { start: { line: 3, column: 14 } },
+    });
+    expect(report.diagnostics[1]).toEqual({ file: 'src/util.ts', code: 'SR4002', name: 'CircularImport', severity: 'warning', message: 'Circular import' });
+  });
+
+  test('should produce a SARIF log with a rule per code, regions and fixes', () => {
+    const log = JSON.parse(formatDiagnosticsSarif(diagnostics, '1.2.3'));
+    const run = log.runs[0];
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({ name: 'ScriptRust', version: '1.2.3' });
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['SR2001', 'SR4002']);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'SR2001',
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/main.ts' }, region: { startLine: 3, startColumn: 14, endColumn: 15 } } }],
+    });
+    expect(run.results[0].fixes[0].artifactChanges[0].replacements[0].insertedContent.text).toBe(')');
+    expect(run.results[1]).toMatchObject({ ruleIndex: 1, level: 'warning' });
+    expect(run.results[1].locations[0].physicalLocation.region).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Diagnostics
+ */
+
+import { Compiler } from '../compiler';
+import { DiagnosticCode, formatDiagnostic } from '../diagnostics';
+
+describe('Diagnostics', () => {
+  const compiler = new Compiler();
+
+  describe('Reporting', () => {
+    test('should report unexpected characters from the lexer', () => {
+      const result = compiler.compileToRust('let x = 1 # 2;');
+
+      expect(result.diagnostics[0]).toMatchObject({
+        code: DiagnosticCode.UnexpectedCharacter,
+        severity: 'error',
+        span: { start: { line: 1, column: 11 }, end: { line: 1, column: 12 } },
+      });
+      expect(result.errors[0]).toMatchObject({ line: 1, column: 11, code: 'SR1001' });
+    });
+
+    test('should report parser errors with a span and a fix', () => {
+      const result = compiler.compileToRust('function f(a: number {\n}');
+
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        code: DiagnosticCode.UnexpectedToken,
+        message: 'Expected ), found `{`',
+        span: { start: { line: 1, column: 22 } },
+        fix: { replacement: ')' },
+      });
+    });
+
+    test('should report codegen errors', () => {
+      const result = compiler.compileToRust('function main(): void {\n}\nconsole.log("hi");');
+
+      expect(result.diagnostics.map(d => d.code)).toEqual([DiagnosticCode.ConflictingMain]);
+    });
+  });
+
+  describe('Recovery', () => {
+    test('should report every syntax error in one pass', () => {
+      const source = `let a = ;
+function f(x: number {
+  return x;
+}
+function g() {
+  let y = 2 +;
+  if (y { y = 1; }
+}
+let ok = 1;`;
+
+      const result = compiler.compileToRust(source);
+      expect(result.errors.map(e => e.line)).toEqual([1, 2, 6, 7]);
+      expect(result.ast.body.map(s => s.type)).toEqual(['ErrorNode', 'ErrorNode', 'FunctionDeclaration', 'VariableDeclaration']);
+      expect(result.code).toBe('');
+    });
+
+    test('should point at the opening brace of an unclosed block', () => {
+      const result = compiler.compileToRust('function f() {\n  let x = 1;\n');
+
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].related).toEqual([
+        {
+          message: 'unclosed `{` opened here',
+          span: { start: { line: 1, column: 14, offset: 13 }, end: { line: 1, column: 15, offset: 14 } },
+        },
+      ]);
+    });
+  });
+
+  describe('Formatting', () => {
+    test('should render a source excerpt with a caret underline', () => {
+      const source = 'let a = 1;\nlet b = (2;\n';
+      const result = compiler.compileToRust(source);
+
+      expect(formatDiagnostic(result.diagnostics[0], source, 'main.ts')).toBe([
+        'error[SR2001]: Expected ), found `;`',
+        ' --> main.ts:2:11',
+        '  |',
+        '2 | let b = (2;',
+        '  |           ^',
+        '  = help: insert `)`',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Tests for token and syntax tree output
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { formatAst, formatAstTree, formatTokens } from '../emit';
+
+describe('Debug Output', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse();
+
+  test('should write one token per line as a JSON array', () => {
+    const output = formatTokens(new Lexer('let x').tokenize());
+    const lines = output.trimEnd().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toBe('  {"type":"LET","value":"let","line":1,"column":1,"offset":0,"end":{"line":1,"column":4,"offset":3}},');
+    expect(JSON.parse(output).map((token: any) => token.type)).toEqual(['LET', 'IDENTIFIER', 'EOF']);
+  });
+
+  test('should write the AST as JSON', () => {
+    const ast = parse('const x = 1;');
+    expect(JSON.parse(formatAst(ast))).toEqual(ast);
+  });
+
+  test('should draw the AST as an indented tree with ranges, fields and decorations', () => {
+    const output = formatAstTree(parse(`/* xxx, mut: counter */
+let count = 1 + 2;`));
+
+    expect(output).toBe(`Program 1:1-2:19
+└─ body[0]: VariableDeclaration 2:1-2:19 kind="let"
+   └─ declarations[0]: VariableDeclarator 2:5-2:18
+      ├─ id: Identifier 2:5-2:10 name="count" /* xxx, mut: counter */
+      └─ init: BinaryExpression 2:13-2:18 operator="+"
+         ├─ left: NumberLiteral 2:13-2:14 value=1
+         └─ right: NumberLiteral 2:17-2:18 value=2
+`);
+  });
+});
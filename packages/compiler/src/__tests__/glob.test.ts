@@ -0,0 +1,16 @@
+/**
+ * Tests for file globs
+ */
+
+import { globToRegExp } from '../glob';
+
+describe('Globs', () => {
+  test('should match globs within and across directories', () => {
+    expect(globToRegExp('src/**/*.ts').test('src/main.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/util/math.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/util/math.ts')).toBe(false);
+    expect(globToRegExp('*.{ts,tsx}').test('app.tsx')).toBe(true);
+    expect(globToRegExp('file?.ts').test('file1.ts')).toBe(true);
+    expect(globToRegExp('a.ts').test('abts')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the language service
+ */
+
+import { LanguageService } from '../language-service';
+
+const files: Record<string, string> = {
+  '/app/main.ts': `import { area, Circle } from './shapes';
+
+function describe(/* xxx, mut: grows */ label: string): string {
+  /* xxx, type: u32 */
+  let count: number = 0;
+  return label;
+}
+
+const circle = new Circle();
+console.log(area(2));
+console.log(describe("a"));
+`,
+  '/app/shapes.ts': `export function area(r: number): number {
+  return r * r;
+}
+
+export class Circle {
+  radius: number = 1;
+}
+`,
+};
+
+const service = new LanguageService({ readFile: fileName => files[fileName] });
+
+describe('Language Service', () => {
+  test('should show the Rust signature and decorations on hover', () => {
+    const parameter = service.getHover('/app/main.ts', { line: 2, character: 42 });
+    expect(parameter?.contents.value).toBe('```rust\nlabel: String\n```\n\n`mut` — grows');
+
+    const variable = service.getHover('/app/main.ts', { line: 4, character: 7 });
+    expect(variable?.contents.value).toContain('count: u32');
+    expect(variable?.range).toEqual({ start: { line: 4, character: 6 }, end: { line: 4, character: 11 } });
+
+    const call = service.getHover('/app/main.ts', { line: 10, character: 13 });
+    expect(call?.contents.value).toContain('fn describe(label: String) -> String');
+
+    const imported = service.getHover('/app/main.ts', { line: 9, character: 13 });
+    expect(imported?.contents.value).toContain('fn area(r: f64) -> f64');
+  });
+
+  test('should go to functions and classes, following imports', () => {
+    expect(service.getDefinition('/app/main.ts', { line: 10, character: 14 })).toEqual({
+      fileName: '/app/main.ts',
+      range: { start: { line: 2, character: 9 }, end: { line: 2, character: 17 } },
+    });
+    expect(service.getDefinition('/app/main.ts', { line: 8, character: 20 })).toEqual({
+      fileName: '/app/shapes.ts',
+      range: { start: { line: 4, character: 13 }, end: { line: 4, character: 19 } },
+    });
+    expect(service.getDefinition('/app/main.ts', { line: 9, character: 12 })?.fileName).toBe('/app/shapes.ts');
+  });
+
+  test('should complete decoration keywords inside a decoration comment', () => {
+    const items = service.getCompletions('/app/main.ts', { line: 3, character: 11 });
+    expect(items.map(item => item.label)).toContain('mut');
+    expect(items[0].insertText).toBe(items[0].label + ': ');
+
+    expect(service.getCompletions('/app/main.ts', { line: 4, character: 6 })).toEqual([]);
+
+    files['/app/values.ts'] = '/* xxx, ownership: bo';
+    expect(service.getCompletions('/app/values.ts', { line: 0, character: 21 }).map(item => item.label)).toEqual(['owned', 'borrowed', 'moved']);
+  });
+
+  test('should report diagnostics of the document in 0-based positions', () => {
+    files['/app/broken.ts'] = 'function f(a: any): void {}\n';
+    expect(service.getDiagnostics('/app/broken.ts')).toEqual([expect.objectContaining({
+      code: 'SR3004',
+      severity: 2,
+      range: { start: { line: 0, character: 14 }, end: { line: 0, character: 17 } },
+    })]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the language server protocol transport
+ */
+
+import { PassThrough } from 'stream';
+import { encodeMessage, Message, MessageReader, SHOW_RUST_COMMAND, startLanguageServer } from '../lsp';
+
+describe('Language Server', () => {
+  test('should split framed messages across and within chunks', () => {
+    const messages: (Message | undefined)[] = [];
+    const reader = new MessageReader(message => messages.push(message));
+    const first = encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { text: 'é' } });
+    const second = encodeMessage({ jsonrpc: '2.0', method: 'initialized' });
+    const both = Buffer.concat([first, second]);
+
+    reader.push(both.subarray(0, 10));
+    reader.push(both.subarray(10, first.length + 5));
+    reader.push(both.subarray(first.length + 5));
+    reader.push(Buffer.from('Content-Length: 3\r\n\r\n{x}'));
+
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { text: 'é' } },
+      { jsonrpc: '2.0', method: 'initialized' },
+      undefined,
+    ]);
+  });
+
+  test('should publish diagnostics, answer requests and exit after shutdown', () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const received: Message[] = [];
+    const reader = new MessageReader(message => received.push(message!));
+    output.on('data', (chunk: Buffer) => reader.push(chunk));
+
+    let exitCode: number | undefined;
+    startLanguageServer(input, output, code => { exitCode = code; });
+
+    const uri = 'file:///virtual/main.ts';
+    const send = (message: Omit<Message, 'jsonrpc'>) => input.write(encodeMessage({ jsonrpc: '2.0', ...message }));
+    send({ id: 1, method: 'initialize', params: {} });
+    send({ method: 'textDocument/didOpen', params: { textDocument: { uri, text: 'function f(a: any): void {}\n' } } });
+    send({ id: 2, method: 'workspace/executeCommand', params: { command: SHOW_RUST_COMMAND, arguments: [uri] } });
+    send({ id: 3, method: 'textDocument/references', params: {} });
+    send({ id: 4, method: 'shutdown' });
+    send({ method: 'exit' });
+
+    expect((received[0].result as any).capabilities.executeCommandProvider.commands).toEqual([SHOW_RUST_COMMAND]);
+    expect(received[1]).toMatchObject({ method: 'textDocument/publishDiagnostics', params: { uri, diagnostics: [{ code: 'SR3004' }] } });
+    expect(received[2]).toMatchObject({ id: 2, result: expect.stringContaining('fn f(a: /* any */ ())') });
+    expect(received[3]).toMatchObject({ id: 3, error: { code: -32601 } });
+    expect(received[4]).toEqual({ jsonrpc: '2.0', id: 4, result: null });
+    expect(exitCode).toBe(0);
+  });
+
+  test('should answer params without the shape a method takes with an error', () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const received: Message[] = [];
+    const reader = new MessageReader(message => received.push(message!));
+    output.on('data', (chunk: Buffer) => reader.push(chunk));
+    startLanguageServer(input, output);
+
+    const uri = 'file:///virtual/main.ts';
+    const send = (message: Omit<Message, 'jsonrpc'>) => input.write(encodeMessage({ jsonrpc: '2.0', ...message }));
+    send({ method: 'textDocument/didOpen', params: { textDocument: { uri, text: 'let a = 1;\n' } } });
+    send({ method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [] } });
+    send({ method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [{ text: 'function g(): void {}\n' }] } });
+    send({ id: 1, method: 'textDocument/hover', params: { textDocument: { uri } } });
+    send({ id: 2, method: 'workspace/executeCommand', params: { command: SHOW_RUST_COMMAND, arguments: uri } });
+    send({ id: 3, method: 'workspace/executeCommand', params: { command: SHOW_RUST_COMMAND, arguments: [uri] } });
+
+    expect(received.filter(message => message.method === 'textDocument/publishDiagnostics')).toHaveLength(2);
+    expect(received.filter(message => message.id !== undefined)).toEqual([
+      { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid params for textDocument/hover' } },
+      { jsonrpc: '2.0', id: 2, error: { code: -32602, message: 'Invalid params for workspace/executeCommand' } },
+      { jsonrpc: '2.0', id: 3, result: expect.stringContaining('fn g()') },
+    ]);
+  });
+});
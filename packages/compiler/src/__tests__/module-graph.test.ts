@@ -0,0 +1,136 @@
+/**
+ * Tests for multi-file projects
+ */
+
+import { Compiler } from '../compiler';
+import { buildModuleGraph, SourceHost } from '../module-graph';
+import { DiagnosticCode } from '../diagnostics';
+
+function host(files: Record<string, string>): SourceHost {
+  return { readFile: fileName => files[fileName] };
+}
+
+describe('Module Graph', () => {
+  test('should follow relative imports to every file of the project', () => {
+    const graph = buildModuleGraph('/app/main.ts', host({
+      '/app/main.ts': `import { a } from './util/x';\nimport { b } from "./lib";`,
+      '/app/util/x.ts': `export const a: number = 1;`,
+      '/app/lib/index.ts': `import { a } from '../util/x.ts';\nexport const b: number = 2;`,
+    }));
+
+    expect(graph.diagnostics).toEqual([]);
+    expect([...graph.modules.values()].map(node => [node.fileName, node.modulePath])).toEqual([
+      ['/app/main.ts', []],
+      ['/app/util/x.ts', ['util', 'x']],
+      ['/app/lib/index.ts', ['lib']],
+    ]);
+  });
+
+  test('should report imports that cannot be resolved', () => {
+    const graph = buildModuleGraph('/app/main.ts', host({
+      '/app/main.ts': `import { a } from './missing';`,
+    }));
+
+    expect(graph.diagnostics).toHaveLength(1);
+    expect(graph.diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.UnresolvedImport,
+      severity: 'error',
+      message: "Cannot find module './missing'",
+      file: '/app/main.ts',
+      span: { start: { line: 1, column: 19 } },
+    });
+  });
+
+  test('should warn about circular imports', () => {
+    const graph = buildModuleGraph('/app/main.ts', host({
+      '/app/main.ts': `import { a } from './a';`,
+      '/app/a.ts': `import { b } from './b';\nexport const a: number = 1;`,
+      '/app/b.ts': `import { a } from './a';\nexport const b: number = 2;`,
+    }));
+
+    expect(graph.diagnostics).toHaveLength(1);
+    expect(graph.diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.CircularImport,
+      severity: 'warning',
+      message: 'Circular import: a.ts -> b.ts -> a.ts',
+      file: '/app/b.ts',
+    });
+  });
+});
+
+describe('Project Compilation', () => {
+  const compiler = new Compiler();
+
+  test('should emit one Rust module per file with crate paths for imports', () => {
+    const result = compiler.compileProjectToRust('/app/main.ts', host({
+      '/app/main.ts': `import { add, Point } from './util/math';
+import { GREETING as HELLO } from './consts';
+
+function main(): void {
+  console.log(add(1, 2), HELLO);
+}`,
+      '/app/util/math.ts': `export function add(a: number, b: number): number {
+  return a + b;
+}
+function helper(): number {
+  return 1;
+}
+export class Point {
+  x: number;
+}`,
+      '/app/consts.ts': `export const GREETING: string = "hi";`,
+    }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.modules.map(module => module.path)).toEqual(['main.rs', 'util/math.rs', 'consts.rs', 'util.rs']);
+
+    const [main, math, consts, util] = result.modules.map(module => module.code);
+    expect(main).toContain('mod util;\nmod consts;\n');
+    expect(main).toContain('use crate::util::math::{add, Point};');
+    expect(main).toContain('use crate::consts::GREETING as HELLO;');
+    expect(util).toBe('pub mod math;\n');
+    expect(math).toContain('pub fn add(a: f64, b: f64) -> f64 {');
+    expect(math).toContain('fn helper() -> f64 {');
+    expect(math).not.toContain('pub fn helper');
+    expect(math).toContain('pub struct Point {');
+    expect(consts).toContain('pub const GREETING: &str = "hi";');
+  });
+
+  test('should leave out top-level statements of imported files', () => {
+    const result = compiler.compileProjectToRust('/app/main.ts', host({
+      '/app/main.ts': `import { a } from './a';`,
+      '/app/a.ts': `export const a: number = 1;\nconsole.log(a);`,
+    }));
+
+    expect(result.modules[1].code).not.toContain('println!');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.StatementInModule,
+      severity: 'warning',
+      file: '/app/a.ts',
+      span: { start: { line: 2, column: 1 } },
+    });
+  });
+
+  test('should not generate code when an import cannot be resolved', () => {
+    const result = compiler.compileProjectToRust('/app/main.ts', host({
+      '/app/main.ts': `import { a } from './missing';\nconsole.log(a);`,
+    }));
+
+    expect(result.modules).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe(DiagnosticCode.UnresolvedImport);
+  });
+
+  test('should write crate paths for relative imports of a single file and report them', () => {
+    const result = compiler.compileToRust(`import { a, b as c } from "./util/x";\nimport { d } from "../shared";\nconsole.log(a, c, d);`);
+
+    expect(result.code).toContain('use crate::util::x::{a, b as c};');
+    expect(result.code).not.toContain('use .');
+    expect(result.code).not.toContain('shared');
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.span?.start.line])).toEqual([
+      [DiagnosticCode.UnresolvedImport, 'warning', 1],
+      [DiagnosticCode.UnresolvedImport, 'error', 2],
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the Parser
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import * as AST from '../ast';
+
+function parse(source: string): AST.Program {
+  return new Parser(new Lexer(source).tokenize()).parse();
+}
+
+describe('Parser', () => {
+  describe('Source Positions', () => {
+    test('should record the start and end of statements and expressions', () => {
+      const source = 'let total = a + b * 2;\nreturn total;';
+      const program = parse(source);
+      const declaration = program.body[0] as AST.VariableDeclaration;
+      const init = declaration.declarations[0].init as AST.BinaryExpression;
+
+      expect(declaration.position).toEqual({ line: 1, column: 1, offset: 0 });
+      expect(declaration.end).toEqual({ line: 1, column: 23, offset: 22 });
+      expect(source.slice(init.position!.offset, init.end!.offset)).toBe('a + b * 2');
+      expect(source.slice(init.right.position!.offset, init.right.end!.offset)).toBe('b * 2');
+      expect(program.body[1].position).toEqual({ line: 2, column: 1, offset: 23 });
+      expect(program.end).toEqual({ line: 2, column: 14, offset: 36 });
+    });
+
+    test('should cover nested nodes, identifiers and type annotations', () => {
+      const source = 'function greet(name: string): string {\n  return `Hi ${name}`;\n}';
+      const fn = parse(source).body[0] as AST.FunctionDeclaration;
+      const text = (node: AST.BaseNode) => source.slice(node.position!.offset, node.end!.offset);
+
+      expect(text(fn)).toBe(source);
+      expect(text(fn.id)).toBe('greet');
+      expect(text(fn.params[0])).toBe('name: string');
+      expect(text(fn.returnType!)).toBe('string');
+      expect(text(fn.body)).toBe('{\n  return `Hi ${name}`;\n}');
+      expect(text(fn.body.body[0])).toBe('return `Hi ${name}`;');
+    });
+
+    test('should record where each decoration comment sits', () => {
+      const source = 'class Counter {\n  /* xxx, mut: true */\n  count: number = 0;\n}';
+      const cls = parse(source).body[0] as AST.ClassDeclaration;
+      const property = cls.body.body[0] as AST.PropertyDefinition;
+
+      expect(property.decorations).toEqual([{
+        keyword: 'mut',
+        description: 'true',
+        position: { line: 2, column: 3, offset: 18 },
+        end: { line: 2, column: 23, offset: 38 },
+      }]);
+      expect(property.position).toEqual({ line: 3, column: 3, offset: 41 });
+    });
+
+    test('should span the tokens skipped by error recovery', () => {
+      const source = 'let a = ;\nlet b = 1;';
+      const program = parse(source);
+
+      expect(program.body[0]).toMatchObject({
+        type: 'ErrorNode',
+        position: { line: 1, column: 1, offset: 0 },
+        end: { line: 1, column: 10, offset: 9 },
+      });
+      expect(program.body[1].position).toEqual({ line: 2, column: 1, offset: 10 });
+    });
+  });
+
+  describe('Type Arguments', () => {
+    test('should read type arguments on calls and constructors', () => {
+      const program = parse('first<number>(x);\nnew Map<string, Array<number>>();');
+      const call = (program.body[0] as AST.ExpressionStatement).expression as AST.CallExpression;
+      const construct = (program.body[1] as AST.ExpressionStatement).expression as AST.NewExpression;
+
+      expect(call).toMatchObject({
+        type: 'CallExpression',
+        callee: { type: 'Identifier', name: 'first' },
+        typeArguments: [{ type: 'TSNumberKeyword' }],
+        arguments: [{ type: 'Identifier', name: 'x' }],
+      });
+      expect(construct.typeArguments).toMatchObject([
+        { type: 'TSStringKeyword' },
+        { type: 'TSTypeReference', typeName: { name: 'Array' }, typeArguments: [{ type: 'TSNumberKeyword' }] },
+      ]);
+    });
+
+    test('should keep comparisons that are not followed by arguments', () => {
+      const program = parse('a < b && c > (d);');
+      const expression = (program.body[0] as AST.ExpressionStatement).expression;
+
+      expect(expression).toMatchObject({
+        type: 'BinaryExpression',
+        operator: '&&',
+        left: { type: 'BinaryExpression', operator: '<' },
+        right: { type: 'BinaryExpression', operator: '>' },
+      });
+    });
+  });
+});
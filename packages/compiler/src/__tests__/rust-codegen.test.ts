@@ -2,10 +2,16 @@
  * Tests for Rust Code Generator
  */
 
+import { spawnSync } from 'child_process';
+import { checkRust } from '../check';
 import { Lexer } from '../lexer';
 import { Parser } from '../parser';
 import { RustCodeGenerator } from '../rust-codegen';
 
+// Checks against rustc only run where a Rust toolchain is installed
+const hasRustc = spawnSync('rustc', ['--version']).status === 0;
+const testWithRustc = hasRustc ? test : test.skip;
+
 describe('RustCodeGenerator', () => {
   function compileToRust(source: string): string {
     const lexer = new Lexer(source);
@@ -16,13 +22,19 @@ describe('RustCodeGenerator', () => {
     return generator.generate(ast);
   }
 
+  function rustcErrors(code: string): string[] {
+    const result = checkRust([{ path: 'main.rs', modulePath: [], code }], 'rustc', { name: 'check', dependencies: {} });
+    return result.diagnostics.map(diagnostic => diagnostic.message);
+  }
+
   describe('Variable Declarations', () => {
-    test('should convert immutable const to Rust let', () => {
+    test('should convert top-level const to a Rust const item', () => {
       const source = `/* xxx, immutable: greeting */
 const message: string = "Hello";`;
 
       const result = compileToRust(source);
-      expect(result).toContain('let message: String = "Hello"');
+      expect(result).toContain('const MESSAGE: &str = "Hello";');
+      expect(result).not.toContain('fn main()');
     });
 
     test('should convert mutable variable to Rust let mut', () => {
@@ -34,13 +46,87 @@ let count: number = 0;`;
     });
 
     test('should handle variable without decoration as immutable', () => {
-      const source = `const x: number = 10;`;
+      const source = `let x: number = 10;`;
 
       const result = compileToRust(source);
       expect(result).toContain('let x: f64 = 10');
     });
   });
 
+  describe('Module Items', () => {
+    test('should emit declarations outside of main', () => {
+      const source = `function greet(name: string): string {
+  return name;
+}
+class Counter {
+  count: number;
+  constructor() {
+    this.count = 0;
+  }
+}
+const counter = new Counter();
+greet("World");`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/^fn greet\(name: String\) -> String \{/m);
+      expect(result).toMatch(/^struct Counter \{/m);
+      expect(result).toMatch(/^impl Counter \{/m);
+      expect(result).toContain('fn main() {\n    let counter = Counter::new();\n    greet("World");\n}');
+    });
+
+    test('should skip main when there are no executable statements', () => {
+      const source = `interface Shape {
+  area: number;
+}
+function double(x: number): number {
+  return x * 2;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('trait Shape {');
+      expect(result).not.toContain('fn main()');
+    });
+
+    test('should rename references to hoisted constants', () => {
+      const source = `const maxSize: number = 100;
+function fits(size: number): boolean {
+  return size < maxSize;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('const MAX_SIZE: f64 = 100.0;');
+      expect(result).toContain('size < MAX_SIZE');
+    });
+
+    test('should make exported items pub', () => {
+      const source = `export function add(a: number, b: number): number {
+  return a + b;
+}
+export enum Color { Red, Green }`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('pub fn add(a: f64, b: f64) -> f64');
+      expect(result).toContain('#[derive(Debug, Clone, Copy, PartialEq, Eq)]\npub enum Color {');
+    });
+
+    test('should only export variables that can be const items', () => {
+      const source = `export const max: number = 10;
+export const limit = compute();
+export let counter = 0;`;
+      const generator = new RustCodeGenerator();
+      const result = generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(result).toContain('pub const MAX: f64 = 10');
+      expect(result).toContain('fn main() {\n    let limit = compute();\n    let counter = 0i64;\n}');
+      expect(result).not.toContain('LIMIT');
+      expect(result).not.toContain('static mut');
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.span?.start.line])).toEqual([
+        ['SR3004', 2],
+        ['SR3004', 3],
+      ]);
+    });
+  });
+
   describe('Function Declarations', () => {
     test('should convert function with immutable parameter', () => {
       const source = `/* xxx, pure: greeting function */
@@ -126,7 +212,7 @@ function fetchData(id: number): string {
 
   describe('Type Conversions', () => {
     test('should convert TypeScript string to Rust String', () => {
-      const source = `const name: string = "test";`;
+      const source = `let name: string = "test";`;
       const result = compileToRust(source);
       expect(result).toContain('String');
     });
@@ -147,7 +233,497 @@ function fetchData(id: number): string {
       const source = `const numbers: number[] = [1, 2, 3];`;
       const result = compileToRust(source);
       expect(result).toContain('Vec<f64>');
-      expect(result).toContain('vec![1, 2, 3]');
+      expect(result).toContain('vec![1.0, 2.0, 3.0]');
+    });
+  });
+
+  describe('Lossy Translations', () => {
+    test('should warn at each placeholder', () => {
+      const source = `function f(a: any, b: string | number): void {
+  const point = { x: 1 };
+}`;
+      const generator = new RustCodeGenerator();
+      const result = generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(result).toContain('/* any */ ()');
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.span?.start.line, diagnostic.span?.start.column])).toEqual([
+        ['SR3004', 'warning', 1, 15],
+        ['SR3004', 'warning', 1, 23],
+        ['SR3004', 'warning', 2, 17],
+      ]);
+      expect(generator.getDiagnostics()[1].message).toBe('Union type is narrowed to its first member');
+    });
+  });
+
+  describe('Numeric Types', () => {
+    test('should apply type decorations to variables, parameters and return types', () => {
+      const source = `/* xxx, type: u64 */
+function scale(/* xxx, type: u32 */ value: number, /* xxx, type: f32 */ factor: number): number {
+  /* xxx, type: u8 */
+  let step: number = 4;
+  return value;
+}
+scale(10, 2.5);`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn scale(value: u32, factor: f32) -> u64');
+      expect(result).toContain('let step: u8 = 4u8;');
+      expect(result).toContain('scale(10u32, 2.5f32);');
+    });
+
+    test('should apply type decorations to class properties', () => {
+      const source = `class Packet {
+  /* xxx, type: u16 */
+  port: number;
+  constructor() {
+    this.port = 8080;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('pub port: u16,');
+      expect(result).toContain('port: 8080u16,');
+    });
+
+    test('should infer usize for indexes and i64 for integer counters', () => {
+      const source = `function total(items: string[]): void {
+  let index = 0;
+  let seen = 0;
+  while (index < items.length) {
+    console.log(items[index]);
+    seen += 1;
+    index++;
+  }
+  console.log(seen);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let index = 0usize;');
+      expect(result).toContain('let seen = 0i64;');
+      expect(result).toContain('while index < items.len() {');
+    });
+
+    testWithRustc('should keep integers out of float parameters of methods and cast lengths', () => {
+      const source = `class Counter {
+  total: number;
+  constructor() {
+    this.total = 0;
+  }
+  add(amount: number): void {
+    this.total += amount;
+  }
+}
+function fill(items: number[]): number {
+  /* xxx, mut: counts up */
+  const counter = new Counter();
+  let step = 2;
+  counter.add(step);
+  counter.add(3);
+  for (let i = 0; i < items.length; i++) {
+    counter.add(items[i]);
+  }
+  const count = items.length;
+  console.log(count);
+  return counter.total / items.length;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let step = 2.0;');
+      expect(result).toContain('counter.add(3.0);');
+      expect(result).toContain('for i in 0..items.len() {');
+      expect(result).toContain('let count = items.len();');
+      expect(result).toContain('counter.total / items.len() as f64');
+      expect(rustcErrors(result)).toEqual([]);
+    });
+
+    test('should keep f64 for values that mix with fractions', () => {
+      const source = `function average(): void {
+  let sum = 0;
+  sum = sum / 2;
+  let rate = 0.5;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let sum = 0.0;');
+      expect(result).toContain('sum = sum / 2.0;');
+      expect(result).toContain('let rate = 0.5;');
+    });
+
+    test('should write whole numbers in float slots as floats', () => {
+      const source = `const MAX: number = 10;
+function add(a: number, b: number): number {
+  return 1;
+}
+function scale(x: number): number {
+  let y = x * 2;
+  y += 1;
+  y++;
+  if (x > 0) {
+    y = -3;
+  }
+  return add(1, 2.5) + y;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('const MAX: f64 = 10.0;');
+      expect(result).toMatch(/fn add\(a: f64, b: f64\) -> f64 \{\s+1\.0\s+\}/);
+      expect(result).toContain('let y = x * 2.0;');
+      expect(result).toContain('y += 1.0;');
+      expect(result).toContain('if x > 0.0 {');
+      expect(result).toContain('y = -3.0;');
+      expect(result).toContain('add(1.0, 2.5) + y');
+    });
+
+    test('should write whole numbers as floats of the configured float type', () => {
+      const source = `function half(x: number): number {
+  return x / 2;
+}`;
+      const generator = new RustCodeGenerator({ numbers: { float: 'f32' } });
+      const result = generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(result).toContain('fn half(x: f32) -> f32');
+      expect(result).toContain('x / 2.0');
+    });
+  });
+
+  describe('Generics', () => {
+    test('should convert generic functions with constraints', () => {
+      const source = `function first<T extends Named, U>(items: T[], fallback: U): T {
+  return items[0];
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn first<T: Named, U>(items: Vec<T>, fallback: U) -> T');
+    });
+
+    test('should convert generic classes to generic struct and impl', () => {
+      const source = `class Box<T> {
+  value: T;
+  constructor(value: T) {
+    this.value = value;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('struct Box<T> {');
+      expect(result).toContain('pub value: T,');
+      expect(result).toContain('impl<T> Box<T> {');
+    });
+
+    test('should keep type parameter defaults on interfaces and aliases', () => {
+      const source = `interface Container<T = number> {
+  value: T;
+}
+type Lookup<V> = Map<string, V>;`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('trait Container<T = f64> {');
+      expect(result).toContain('type Lookup<V> = std::collections::HashMap<String, V>;');
+    });
+
+    test('should map built-in generic types', () => {
+      const source = `async function load(ids: Array<number>): Promise<string> {
+  return "ok";
+}
+let cache: Map<number, string[]> = new Map();`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('async fn load(ids: Vec<f64>) -> String');
+      expect(result).toContain('let cache: std::collections::HashMap<f64, Vec<String>>');
+      expect(result).toContain('= std::collections::HashMap::new();');
+    });
+
+    test('should write explicit type arguments of calls and constructors as turbofish', () => {
+      const source = `class Box<T> {
+  value: T;
+  constructor(value: T) {
+    this.value = value;
+  }
+}
+function first<T>(items: T[]): T {
+  return items[0];
+}
+const boxed = new Box<number>(1);
+const head = first<number>([1, 2]);
+const counts = new Map<string, number>();
+const seen = new Set<string>();`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let boxed = Box::<f64>::new(1.0);');
+      expect(result).toContain('let head = first::<f64>(vec![1.0, 2.0]);');
+      expect(result).toContain('let counts = std::collections::HashMap::<String, f64>::new();');
+      expect(result).toContain('let seen = std::collections::HashSet::<String>::new();');
+    });
+  });
+
+  describe('Enums', () => {
+    test('should convert numeric enum with derives and discriminants', () => {
+      const source = `enum Color {
+  Red,
+  Green = 5,
+  Blue
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('#[derive(Debug, Clone, Copy, PartialEq, Eq)]');
+      expect(result).toMatch(/enum Color \{\s+Red,\s+Green = 5,\s+Blue,\s+\}/);
+    });
+
+    test('should give string enums as_str() and Display', () => {
+      const source = `const enum Direction {
+  Up = "UP",
+  Down = "DOWN"
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/enum Direction \{\s+Up,\s+Down,\s+\}/);
+      expect(result).toContain("pub fn as_str(&self) -> &'static str");
+      expect(result).toContain('Direction::Up => "UP"');
+      expect(result).toContain('impl std::fmt::Display for Direction');
+    });
+
+    test('should convert enum member access to a path', () => {
+      const source = `enum Color { Red, Green }
+const c: Color = Color.Red;`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let c: Color = Color::Red;');
+    });
+  });
+
+  describe('Discriminated Unions', () => {
+    const shapes = `interface Circle {
+  kind: "circle";
+  radius: number;
+}
+interface Square {
+  kind: "square";
+  side: number;
+}
+type Shape = Circle | Square;
+`;
+
+    test('should convert tagged union alias to enum with data variants', () => {
+      const result = compileToRust(shapes);
+      expect(result).toContain('#[derive(Debug, Clone, PartialEq)]');
+      expect(result).toMatch(/enum Shape \{\s+Circle \{ radius: f64 \},\s+Square \{ side: f64 \},\s+\}/);
+      expect(result).not.toContain('/* union */');
+      expect(result).not.toContain('trait Circle');
+      expect(result).not.toContain('trait Square');
+    });
+
+    test('should lower tag checks in if/else to match arms', () => {
+      const source = shapes + `function area(s: Shape): number {
+  if (s.kind === "circle") {
+    return s.radius * s.radius;
+  } else {
+    return s.side * s.side;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('match s {');
+      expect(result).toMatch(/Shape::Circle \{ radius \} => \{\s+radius \* radius/);
+      expect(result).toMatch(/Shape::Square \{ side \} => \{\s+side \* side/);
+    });
+
+    test('should lower switch on the tag to match arms', () => {
+      const source = shapes + `function label(s: Shape): string {
+  switch (s.kind) {
+    case "circle":
+      return "round";
+    case "square":
+      return "boxy";
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('Shape::Circle { .. } => {');
+      expect(result).toContain('Shape::Square { .. } => {');
+      expect(result).not.toContain('_ => {}');
+    });
+
+    test('should report case labels that are not variants and leave them out', () => {
+      const source = shapes + `function label(s: Shape): string {
+  switch (s.kind) {
+    case "triangle":
+      return "pointy";
+    case "circle":
+      return "round";
+  }
+}`;
+      const generator = new RustCodeGenerator();
+      const result = generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(result).not.toContain('"pointy"');
+      expect(result).toMatch(/match s \{\s+Shape::Circle \{ \.\. \} => \{/);
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.span?.start.line])).toEqual([
+        ['SR3004', 'Case is not a variant of `Shape` and is left out', 12],
+      ]);
+    });
+
+    test('should write the union for a variant used as a type on its own, and report it', () => {
+      const source = shapes + `function grow(c: Circle): Shape {
+  return c;
+}
+grow({ kind: "circle", radius: 1 });`;
+      const generator = new RustCodeGenerator();
+      const result = generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(result).toContain('fn grow(c: Shape) -> Shape {');
+      expect(result).toContain('grow(Shape::Circle { radius: 1.0 });');
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.span?.start.line])).toEqual([
+        ['SR3004', '`Circle` is a variant of `Shape` and has no Rust type of its own; `Shape` is used instead', 10],
+      ]);
+    });
+
+    test('should build variants from tagged object literals', () => {
+      const source = shapes + `const c: Shape = { kind: "circle", radius: 2 };`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let c: Shape = Shape::Circle { radius: 2.0 };');
+    });
+
+    test('should convert string literal unions to fieldless enums', () => {
+      const source = `type Status = "active" | "in-review";
+const s: Status = "in-review";`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/enum Status \{\s+Active,\s+InReview,\s+\}/);
+      expect(result).toContain('let s: Status = Status::InReview;');
+    });
+
+    test('should convert other switches to match with a wildcard arm', () => {
+      const source = `switch (code) {
+  case 1:
+  case 2:
+    console.log("low");
+    break;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('match code {');
+      expect(result).toContain('1 | 2 => {');
+      expect(result).toContain('_ => {}');
+      expect(result).not.toContain('break;');
+    });
+
+    test('should write the default arm last wherever the default case is', () => {
+      const source = `switch (code) {
+  default:
+    console.log("other");
+    break;
+  case 1:
+    console.log("one");
+    break;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/1 => \{\s+println!\("\{:\?\}", "one"\);\s+\}\s+_ => \{\s+println!\("\{:\?\}", "other"\);\s+\}/);
+    });
+
+    test('should break out of a case through a labeled block', () => {
+      const source = `while (running) {
+  switch (code) {
+    case 1:
+      if (done) {
+        break;
+      }
+      console.log("one");
+      break;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain("1 => 'case: {");
+      expect(result).toContain("break 'case;");
+      expect(result).not.toMatch(/break;/);
+    });
+
+    test('should report cases that fall through into the next one', () => {
+      const source = `switch (code) {
+  case 1:
+    console.log("one");
+  case 2:
+    console.log("two");
+    break;
+  case 3:
+    if (a) {
+      return;
+    } else {
+      return;
+    }
+  default:
+    console.log("other");
+}`;
+      const generator = new RustCodeGenerator();
+      generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.span?.start.line])).toEqual([
+        ['SR3004', 'Case falls through into the next one, which a match arm cannot do', 2],
+      ]);
+    });
+  });
+
+  describe('Option Types', () => {
+    test('should map nullable unions to Option', () => {
+      const source = `let name: string | null = null;
+let age: number | undefined = 30;`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let name: Option<String> = None;');
+      expect(result).toContain('let age: Option<f64> = Some(30.0);');
+    });
+
+    test('should wrap optional parameters and pass None for omitted arguments', () => {
+      const source = `function greet(name: string, title?: string): string | null {
+  return null;
+}
+greet("Ada");
+greet("Ada", "Dr");`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn greet(name: String, title: Option<String>) -> Option<String>');
+      expect(result).toContain('greet("Ada", None)');
+      expect(result).toContain('greet("Ada", Some("Dr"))');
+    });
+
+    test('should initialize unset optional class properties to None', () => {
+      const source = `class Person {
+  name: string;
+  nickname?: string;
+  constructor(name: string) {
+    this.name = name;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('pub nickname: Option<String>,');
+      expect(result).toContain('nickname: None,');
+    });
+
+    test('should unwrap null checks with if let', () => {
+      const source = `function show(value: number | null): void {
+  if (value !== null) {
+    console.log(value);
+  }
+  if (value === null) {
+    console.log("missing");
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('if let Some(value) = value {');
+      expect(result).toContain('if value.is_none() {');
+    });
+
+    test('should convert nullish coalescing to unwrap_or', () => {
+      const source = `let port: number | undefined = undefined;
+const actual = port ?? 8080;`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let port: Option<f64> = None;');
+      expect(result).toContain('let actual = port.unwrap_or(8080.0);');
     });
   });
 
@@ -210,8 +786,9 @@ console.log(greet("World"));`;
 
       const result = compileToRust(source);
 
-      // Check variable declaration
-      expect(result).toContain('let message: String = "Hello, ScriptRust!"');
+      // Check constant declaration
+      expect(result).toContain('const MESSAGE: &str = "Hello, ScriptRust!";');
+      expect(result).toContain('println!("{:?}", MESSAGE);');
 
       // Check function declaration
       expect(result).toContain('fn greet(name: String) -> String');
@@ -278,6 +855,155 @@ console.log(greet("World"));`;
     });
   });
 
+  describe('For Loops', () => {
+    test('should convert counting loop to exclusive range', () => {
+      const source = `for (let i = 0; i < 10; i++) {
+  console.log(i);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for i in 0..10 {');
+      expect(result).not.toContain('loop');
+    });
+
+    test('should convert inclusive loop with step', () => {
+      const source = `for (let i = 1; i <= n; i += 2) {
+  console.log(i);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for i in (1..=n).step_by(2) {');
+    });
+
+    test('should convert descending loop to reversed range', () => {
+      const source = `for (let i = 10; i > 0; i--) {
+  console.log(i);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for i in (1..=10).rev() {');
+    });
+
+    test('should lower other shapes to while with update at the end', () => {
+      const source = `for (let i = 1; i < 100; i = i * 2) {
+  console.log(i);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let mut i = 1;');
+      expect(result).toMatch(/while i < 100 \{\s+println!\("\{:\?\}", i\);\s+i = i \* 2;\s+\}/);
+    });
+
+    test('should run the update before continue in lowered loops', () => {
+      const source = `for (let i = 0; i < 10; i = i + 3) {
+  if (i === 3) {
+    continue;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/i = i \+ 3;\s+continue;/);
+    });
+
+    test('should not use a range when the body writes the loop variable', () => {
+      const source = `for (let i = 0; i < 10; i++) {
+  i = i + 1;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).not.toContain('for i in');
+      expect(result).toContain('while i < 10');
+      expect(result).toContain('i += 1;');
+    });
+
+    test('should yield the value of an increment used as an expression', () => {
+      const source = `function next(items: number[], /* xxx, type: usize */ i: number): number {
+  const a = items[i++];
+  const b = ++i;
+  i--;
+  return a;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('items[{ let previous = i; i += 1; previous }]');
+      expect(result).toContain('{ i += 1; i }');
+      expect(result).toMatch(/\n\s+i -= 1;\n/);
+    });
+
+    test('should convert for...of to iter()', () => {
+      const source = `for (const item of items) {
+  console.log(item);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for item in items.iter() {');
+    });
+
+    test('should use iter_mut() for a mut loop variable', () => {
+      const source = `/* xxx, mut: updated in place */
+for (let item of items) {
+  console.log(item);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for item in items.iter_mut() {');
+    });
+
+    testWithRustc('should write through the element reference of a mut loop variable', () => {
+      const source = `function bump(values: number[]): number[] {
+  /* xxx, mut: updated in place */
+  for (let value of values) {
+    value = value + 1;
+    value += 2;
+    if (value > 10) {
+      value = 10;
+    }
+  }
+  return values;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn bump(mut values: Vec<f64>)');
+      expect(result).toContain('*value = *value + 1.0;');
+      expect(result).toContain('*value += 2.0;');
+      expect(result).toContain('if *value > 10.0 {');
+      expect(rustcErrors(result)).toEqual([]);
+    });
+
+    test('should consume the collection for an owned loop variable', () => {
+      const source = `for (/* xxx, ownership: owned */ const item of items) {
+  console.log(item);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for item in items {');
+    });
+
+    test('should iterate map entries for for...in over a Map', () => {
+      const source = `const cache = new Map();
+for (const key in cache) {
+  console.log(key);
+}
+for (const [key, value] of cache) {
+  console.log(key, value);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for (key, _) in cache.iter() {');
+      expect(result).toContain('for (key, value) in cache.iter() {');
+    });
+
+    test('should iterate indexes for for...in over an array', () => {
+      const source = `const values: number[] = [1, 2];
+for (const i in values) {
+  console.log(i);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('for i in 0..values.len() {');
+    });
+  });
+
   describe('Expressions', () => {
     test('should convert new expression to ::new() call', () => {
       const source = `const point = new Point(1, 2);`;
@@ -304,6 +1030,19 @@ console.log(greet("World"));`;
       expect(result).toContain('"positive"');
       expect(result).toContain('"negative"');
     });
+
+    test('should convert JSON calls to serde_json and derive serde on data types', () => {
+      const source = `class Point {
+  x: number = 0;
+}
+const point = new Point();
+const text = JSON.stringify(point);
+const copy: Point = JSON.parse(text);`;
+      const result = compileToRust(source);
+      expect(result).toContain('#[derive(serde::Serialize, serde::Deserialize)]\nstruct Point {');
+      expect(result).toContain('let text = serde_json::to_string(&point).unwrap();');
+      expect(result).toContain('let copy: Point = serde_json::from_str(&text).unwrap();');
+    });
   });
 
   describe('Error Handling', () => {
@@ -313,15 +1052,166 @@ console.log(greet("World"));`;
       expect(result).toContain('panic!');
     });
 
-    test('should add comment for try-catch', () => {
-      const source = `try {
-  doSomething();
+    test('should return Result from functions that throw', () => {
+      const source = `function parse(text: string): number {
+  if (text == "") {
+    throw new Error("empty input");
+  }
+  return 42;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn parse(text: String) -> Result<f64, String>');
+      expect(result).toContain('return Err("empty input".to_string());');
+      expect(result).toContain('Ok(42.0)');
+    });
+
+    testWithRustc('should keep the return keyword on early returns of functions that throw', () => {
+      const source = `function find(limit: number): number {
+  if (limit < 0) {
+    throw new Error("negative limit");
+  }
+  /* xxx, mut: doubled until it passes the limit */
+  let value: number = 1;
+  while (value < limit) {
+    if (value * value > limit) {
+      return value;
+    }
+    value = value * 2;
+  }
+  if (limit == 0) {
+    return 0;
+  } else {
+    return limit;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toMatch(/if value \* value > limit \{\s+return Ok\(value\);/);
+      expect(result).toMatch(/if limit == 0\.0 \{\s+Ok\(0\.0\)\s+\} else \{\s+Ok\(limit\)/);
+      expect(rustcErrors(result)).toEqual([]);
+    });
+
+    test('should propagate errors through callers with ?', () => {
+      const source = `function parse(text: string): number {
+  throw new Error("not implemented");
+}
+function check(text: string): void {
+  const value = parse(text);
+  console.log(value);
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn check(text: String) -> Result<(), String>');
+      expect(result).toContain('let value = parse(text)?;');
+      expect(result).toContain('Ok(())');
+    });
+
+    test('should use the error type from a throws decoration', () => {
+      const source = `/* xxx, throws: IoError */
+function load(path: string): string {
+  return path;
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn load(path: String) -> Result<String, IoError>');
+      expect(result).toContain('Ok(path)');
+    });
+
+    test('should convert try-catch to match on the result', () => {
+      const source = `function risky(): void {
+  throw "failed";
+}
+try {
+  risky();
 } catch (e) {
   console.log(e);
+} finally {
+  console.log("done");
 }`;
 
       const result = compileToRust(source);
-      expect(result).toContain('// try-catch - use Result<T, E> pattern in Rust');
+      expect(result).toContain('match (|| -> Result<(), String> {');
+      expect(result).toContain('risky()?;');
+      expect(result).toContain('Ok(()) => {}');
+      expect(result).toContain('Err(e) => {');
+      expect(result).toContain('println!("{:?}", "done");');
+    });
+
+    test('should return the value of a try block from the function', () => {
+      const source = `function parse(text: string): number {
+  throw "failed";
+}
+function run(): number {
+  try {
+    const v = parse("x");
+    return v;
+  } catch (e) {
+    console.log(e);
+    return 0;
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn run() -> f64 {\n    match (|| -> Result<f64, String> {');
+      expect(result).toMatch(/let v = parse\("x"\)\?;\s+Ok\(v\)\s+\}\)\(\) \{/);
+      expect(result).toContain('Ok(value) => return value,');
+      expect(result).toMatch(/Err\(e\) => \{\s+println!\("\{:\?\}", e\);\s+return 0\.0;/);
+    });
+
+    test('should run the finalizer before returning the value of a try block', () => {
+      const source = `function parse(text: string): number {
+  throw "failed";
+}
+function load(): number {
+  const result = 1;
+  try {
+    return parse("x");
+  } finally {
+    console.log("done");
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('fn load() -> Result<f64, String>');
+      expect(result).toContain('let result_ = (|| -> Result<f64, String> {');
+      expect(result).toMatch(/println!\("\{:\?\}", "done"\);\s+return Ok\(result_\?\);/);
+    });
+
+    test('should check the result of a try-finally without a return', () => {
+      const source = `function risky(): void {
+  throw "failed";
+}
+function attempt(): void {
+  try {
+    risky();
+  } finally {
+    console.log("done");
+  }
+}`;
+
+      const result = compileToRust(source);
+      expect(result).toContain('let result = (|| -> Result<(), String> {');
+      expect(result).toMatch(/println!\("\{:\?\}", "done"\);\s+result\?;/);
+    });
+
+    test('should report a try block that returns on some paths only', () => {
+      const source = `function pick(flag: boolean): number {
+  try {
+    if (flag) {
+      return 1;
+    }
+  } catch (e) {
+    console.log(e);
+  }
+  return 2;
+}`;
+      const generator = new RustCodeGenerator();
+      generator.generate(new Parser(new Lexer(source).tokenize()).parse());
+
+      expect(generator.getDiagnostics().map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.span?.start.line])).toEqual([
+        ['SR3004', 'Try block returns on some paths only, which is not translated', 2],
+      ]);
     });
   });
 
@@ -331,7 +1221,7 @@ console.log(greet("World"));`;
 const PI: number = 3.14159;`;
 
       const result = compileToRust(source);
-      expect(result).toContain('let PI: f64 = 3.14159');
+      expect(result).toContain('const PI: f64 = 3.14159');
       expect(result).not.toContain('let mut');
     });
 
@@ -0,0 +1,89 @@
+/**
+ * Tests for reading rustc's JSON diagnostics
+ */
+
+import { Compiler } from '../compiler';
+import { DiagnosticCode } from '../diagnostics';
+import { GeneratedFile, parseRustcDiagnostics } from '../rustc-diagnostics';
+
+describe('Rustc Diagnostics', () => {
+  const source = `function add(a: string): number {
+  return a;
+}
+
+function main(): void {
+  const total = add(1);
+}`;
+  const { code, sourceMap } = new Compiler().compileToRust(source, 'main.ts');
+  const files: GeneratedFile[] = [{ path: '/tmp/check/main.rs', fileName: 'main.ts', sourceMap: sourceMap! }];
+
+  // `let total = add(1);` is line 6 of the generated code, `fn add` line 1
+  const span = (line: number, start: number, end: number, extra: object = {}) => ({
+    file_name: '/tmp/check/main.rs', line_start: line, line_end: line, column_start: start, column_end: end,
+    is_primary: true, label: null, ...extra,
+  });
+  const mismatch = {
+    $message_type: 'diagnostic',
+    message: 'mismatched types',
+    code: { code: 'E0308' },
+    level: 'error',
+    spans: [
+      span(6, 21, 22, { label: 'expected `String`, found integer' }),
+      span(6, 17, 20, { is_primary: false, label: 'arguments to this function are incorrect' }),
+    ],
+    children: [
+      { message: 'function defined here', code: null, level: 'note', spans: [span(1, 4, 7)], children: [] },
+      { message: 'try using a conversion method', code: null, level: 'help', spans: [span(6, 22, 22)], children: [] },
+    ],
+  };
+
+  test('should generate the Rust lines the spans below point at', () => {
+    expect(code.split('\n')[5]).toBe('    let total = add(1);');
+  });
+
+  test('should map errors back to the TypeScript source', () => {
+    const output = [
+      JSON.stringify(mismatch),
+      JSON.stringify({ $message_type: 'diagnostic', message: 'aborting due to 1 previous error', code: null, level: 'error', spans: [], children: [] }),
+      JSON.stringify({ $message_type: 'diagnostic', message: 'For more information about this error, try `rustc --explain E0308`.', code: null, level: 'failure-note', spans: [], children: [] }),
+    ].join('\n');
+
+    expect(parseRustcDiagnostics(output, files)).toEqual([{
+      code: DiagnosticCode.RustCompileError,
+      severity: 'error',
+      message: 'mismatched types: expected `String`, found integer (E0308)',
+      file: 'main.ts',
+      span: { start: { line: 6, column: 3, offset: 75 }, end: { line: 6, column: 24, offset: 96 } },
+      related: [
+        { message: 'arguments to this function are incorrect', span: expect.objectContaining({ start: { line: 6, column: 3, offset: 75 } }) },
+        { message: 'function defined here', span: expect.objectContaining({ start: { line: 1, column: 1, offset: 0 } }) },
+      ],
+      fix: { message: 'try using a conversion method' },
+    }]);
+  });
+
+  test('should read compiler messages from cargo and keep the location of unmapped spans', () => {
+    const output = [
+      JSON.stringify({ reason: 'compiler-artifact', target: { name: 'serde' } }),
+      JSON.stringify({ reason: 'compiler-message', message: { ...mismatch, spans: [{ ...span(3, 5, 9), file_name: 'src/other.rs' }], children: [] } }),
+      'not json',
+    ].join('\n');
+
+    const diagnostics = parseRustcDiagnostics(output, files);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe('mismatched types (E0308) at src/other.rs:3:5');
+    expect(diagnostics[0].span).toBeUndefined();
+  });
+
+  test('should skip lines that do not have the shape of a rustc message', () => {
+    const output = [
+      JSON.stringify(null),
+      JSON.stringify(['error']),
+      JSON.stringify({ reason: 'compiler-message', message: 'mismatched types' }),
+      JSON.stringify({ ...mismatch, spans: [{ ...span(3, 5, 9), line_start: '3' }] }),
+      JSON.stringify({ ...mismatch, children: [{ message: 'note', level: 'note' }] }),
+    ].join('\n');
+
+    expect(parseRustcDiagnostics(output, files)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for Source Maps
+ */
+
+import { Compiler } from '../compiler';
+import { decodeMappings, encodeMappings, originalPositionFor, remapLocations } from '../source-map';
+
+describe('Source Maps', () => {
+  const compiler = new Compiler();
+
+  test('should round-trip mappings through the VLQ encoding', () => {
+    const mappings = [
+      { generatedLine: 1, generatedColumn: 1, originalLine: 3, originalColumn: 1 },
+      { generatedLine: 1, generatedColumn: 40, originalLine: 3, originalColumn: 20 },
+      { generatedLine: 4, generatedColumn: 5, originalLine: 1, originalColumn: 100 },
+    ];
+
+    expect(encodeMappings(mappings)).toBe('AAEA,uCAAmB;;;IAFgF');
+    expect(decodeMappings(encodeMappings(mappings))).toEqual(mappings);
+  });
+
+  test('should return a v3 source map with the Rust code', () => {
+    const source = 'function add(a: number, b: number): number {\n  return a + b;\n}';
+    const result = compiler.compileToRust(source, 'src/math.ts');
+
+    expect(result.sourceMap).toMatchObject({
+      version: 3,
+      file: 'math.rs',
+      sources: ['src/math.ts'],
+      sourcesContent: [source],
+      names: [],
+    });
+  });
+
+  test('should map generated Rust lines back to the statements that produced them', () => {
+    const source = `class Counter {
+  count: number = 0;
+
+  increment(): void {
+    this.count += 1;
+  }
+}
+
+export function total(values: number[]): number {
+  let sum = 0;
+  for (const value of values) {
+    sum += value;
+  }
+  return sum;
+}`;
+    const result = compiler.compileToRust(source);
+    const lines = result.code.split('\n');
+    const originalLineOf = (text: string) =>
+      originalPositionFor(result.sourceMap!, lines.findIndex(line => line.trim().startsWith(text)) + 1, 5)?.line;
+
+    expect(originalLineOf('pub count')).toBe(2);
+    expect(originalLineOf('pub fn increment')).toBe(4);
+    expect(originalLineOf('self.count += 1')).toBe(5);
+    expect(originalLineOf('pub fn total')).toBe(9);
+    expect(originalLineOf('sum += value')).toBe(12);
+    expect(originalPositionFor(result.sourceMap!, lines.indexOf('    sum') + 1, 5)?.line).toBe(14);
+  });
+
+  test('should map the generated JavaScript too', () => {
+    const result = compiler.compile('let a = 1;\n\n\nlet b = a + 1;');
+    const line = result.code.split('\n').indexOf('let b = a + 1;') + 1;
+
+    expect(result.sourceMap?.file).toBe('input.js');
+    expect(originalPositionFor(result.sourceMap!, line, 1)).toEqual({ line: 4, column: 1 });
+  });
+
+  test('should rewrite rustc error locations to the TypeScript input', () => {
+    const source = 'let x = 1;\nfunction f(): void {\n  console.log("hi");\n}';
+    const result = compiler.compileToRust(source);
+    const line = result.code.split('\n').findIndex(text => text.includes('println!')) + 1;
+    const stderr = `error[E0425]: cannot find value\n --> /tmp/out/main.rs:${line}:5\n`;
+
+    expect(remapLocations(stderr, '/tmp/out/main.rs', 'main.ts', result.sourceMap!))
+      .toBe('error[E0425]: cannot find value\n --> main.ts:3:3\n');
+  });
+});
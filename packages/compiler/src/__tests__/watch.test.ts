@@ -0,0 +1,121 @@
+/**
+ * Tests for watching source files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listSourceFiles, watchSources, WatchFunction } from '../watch';
+
+describe('Watch', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scriptrust-watch-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * A watcher that reports the changes a test makes up, instead of ones on disk
+   */
+  function fakeWatcher(): { watch: WatchFunction; change(fileName: string | null): void; closed(): boolean } {
+    let listener: ((fileName: string | null) => void) | undefined;
+    let closed = false;
+    return {
+      watch: (_directory, onEvent) => {
+        listener = onEvent;
+        return { close: () => { closed = true; } };
+      },
+      change: fileName => listener!(fileName),
+      closed: () => closed,
+    };
+  }
+
+  test('should report a burst of changes once, after the debounce', () => {
+    jest.useFakeTimers();
+    const watcher = fakeWatcher();
+    const onChange = jest.fn();
+    watchSources(directory, onChange, { watch: watcher.watch });
+
+    watcher.change('main.ts');
+    jest.advanceTimersByTime(60);
+    watcher.change('util/x.ts');
+    jest.advanceTimersByTime(60);
+    expect(onChange).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(40);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([path.join(directory, 'main.ts'), path.join(directory, 'util/x.ts')]);
+  });
+
+  test('should coalesce repeated events for the same file', () => {
+    jest.useFakeTimers();
+    const watcher = fakeWatcher();
+    const onChange = jest.fn();
+    watchSources(directory, onChange, { watch: watcher.watch, debounce: 10 });
+
+    watcher.change('main.ts');
+    watcher.change('main.ts');
+    watcher.change('main.ts');
+    jest.advanceTimersByTime(10);
+    watcher.change('main.ts');
+    jest.advanceTimersByTime(10);
+
+    expect(onChange.mock.calls).toEqual([
+      [[path.join(directory, 'main.ts')]],
+      [[path.join(directory, 'main.ts')]],
+    ]);
+  });
+
+  test('should ignore files that are not sources and events without a name', () => {
+    jest.useFakeTimers();
+    const watcher = fakeWatcher();
+    const onChange = jest.fn();
+    watchSources(directory, onChange, { watch: watcher.watch });
+
+    watcher.change('main.rs');
+    watcher.change('types.d.ts');
+    watcher.change('node_modules/lib/index.ts');
+    watcher.change(null);
+    jest.advanceTimersByTime(100);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('should watch the directory of a file and stop on request', () => {
+    jest.useFakeTimers();
+    const file = path.join(directory, 'main.ts');
+    fs.writeFileSync(file, '');
+    const watcher = fakeWatcher();
+    const watched: string[] = [];
+    const onChange = jest.fn();
+    const stop = watchSources(file, onChange, {
+      watch: (target, listener) => {
+        watched.push(target);
+        return watcher.watch(target, listener);
+      },
+    });
+
+    watcher.change('main.ts');
+    stop();
+    jest.advanceTimersByTime(100);
+
+    expect(watched).toEqual([directory]);
+    expect(watcher.closed()).toBe(true);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('should list sources below a directory, leaving out dependencies and hidden directories', () => {
+    const files = ['main.ts', 'util/x.ts', 'util/types.d.ts', 'util/notes.md', 'node_modules/lib/index.ts', '.cache/old.ts'];
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+      fs.writeFileSync(path.join(directory, file), '');
+    }
+
+    expect(listSourceFiles(directory)).toEqual([path.join(directory, 'main.ts'), path.join(directory, 'util/x.ts')]);
+  });
+});
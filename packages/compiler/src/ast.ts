@@ -2,20 +2,27 @@
  * ScriptRust AST Node Definitions
  */
 
+/**
+ * A location in the source: 1-based line and column, 0-based character offset
+ */
 export interface Position {
   line: number;
   column: number;
+  offset: number;
 }
 
 export interface BaseNode {
   type: string;
-  position?: Position;
+  position?: Position;  // Start of the node's first token
+  end?: Position;       // Just past the node's last token
   decorations?: Decoration[];
 }
 
 export interface Decoration {
   keyword: string;
   description: string;
+  position?: Position;
+  end?: Position;
 }
 
 // Program
@@ -31,16 +38,31 @@ export type Statement =
   | ClassDeclaration
   | InterfaceDeclaration
   | TypeAliasDeclaration
+  | EnumDeclaration
   | ExpressionStatement
   | ReturnStatement
   | IfStatement
+  | SwitchStatement
   | WhileStatement
   | ForStatement
+  | ForOfStatement
+  | ForInStatement
   | BlockStatement
   | ImportDeclaration
   | ExportDeclaration
   | TryStatement
-  | ThrowStatement;
+  | ThrowStatement
+  | BreakStatement
+  | ContinueStatement
+  | ErrorNode;
+
+/**
+ * Stands in for a statement that failed to parse, so the rest of the program is still available
+ */
+export interface ErrorNode extends BaseNode {
+  type: 'ErrorNode';
+  message: string;
+}
 
 export interface VariableDeclaration extends BaseNode {
   type: 'VariableDeclaration';
@@ -62,6 +84,7 @@ export interface FunctionDeclaration extends BaseNode {
   body: BlockStatement;
   returnType?: TypeAnnotation;
   isAsync?: boolean;
+  typeParameters?: TSTypeParameter[];
 }
 
 export interface Parameter extends BaseNode {
@@ -69,6 +92,7 @@ export interface Parameter extends BaseNode {
   id: Identifier;
   typeAnnotation?: TypeAnnotation;
   defaultValue?: Expression;
+  optional?: boolean;
 }
 
 export interface ClassDeclaration extends BaseNode {
@@ -76,6 +100,7 @@ export interface ClassDeclaration extends BaseNode {
   id: Identifier;
   superClass?: Identifier;
   body: ClassBody;
+  typeParameters?: TSTypeParameter[];
 }
 
 export interface ClassBody extends BaseNode {
@@ -97,12 +122,14 @@ export interface PropertyDefinition extends BaseNode {
   value?: Expression;
   typeAnnotation?: TypeAnnotation;
   isStatic?: boolean;
+  optional?: boolean;
 }
 
 export interface InterfaceDeclaration extends BaseNode {
   type: 'InterfaceDeclaration';
   id: Identifier;
   body: InterfaceBody;
+  typeParameters?: TSTypeParameter[];
 }
 
 export interface InterfaceBody extends BaseNode {
@@ -121,6 +148,20 @@ export interface TypeAliasDeclaration extends BaseNode {
   type: 'TypeAliasDeclaration';
   id: Identifier;
   typeAnnotation: TypeAnnotation;
+  typeParameters?: TSTypeParameter[];
+}
+
+export interface EnumDeclaration extends BaseNode {
+  type: 'EnumDeclaration';
+  id: Identifier;
+  members: EnumMember[];
+  isConst?: boolean;
+}
+
+export interface EnumMember extends BaseNode {
+  type: 'EnumMember';
+  id: Identifier;
+  initializer?: Expression;
 }
 
 export interface ExpressionStatement extends BaseNode {
@@ -140,6 +181,18 @@ export interface IfStatement extends BaseNode {
   alternate?: Statement;
 }
 
+export interface SwitchStatement extends BaseNode {
+  type: 'SwitchStatement';
+  discriminant: Expression;
+  cases: SwitchCase[];
+}
+
+export interface SwitchCase extends BaseNode {
+  type: 'SwitchCase';
+  test?: Expression;  // Absent for the default case
+  consequent: Statement[];
+}
+
 export interface WhileStatement extends BaseNode {
   type: 'WhileStatement';
   test: Expression;
@@ -154,6 +207,35 @@ export interface ForStatement extends BaseNode {
   body: Statement;
 }
 
+export interface ForOfStatement extends BaseNode {
+  type: 'ForOfStatement';
+  kind: 'let' | 'const' | 'var';
+  left: Identifier | ArrayPattern;
+  right: Expression;
+  body: Statement;
+}
+
+export interface ForInStatement extends BaseNode {
+  type: 'ForInStatement';
+  kind: 'let' | 'const' | 'var';
+  left: Identifier | ArrayPattern;
+  right: Expression;
+  body: Statement;
+}
+
+export interface ArrayPattern extends BaseNode {
+  type: 'ArrayPattern';
+  elements: Identifier[];
+}
+
+export interface BreakStatement extends BaseNode {
+  type: 'BreakStatement';
+}
+
+export interface ContinueStatement extends BaseNode {
+  type: 'ContinueStatement';
+}
+
 export interface BlockStatement extends BaseNode {
   type: 'BlockStatement';
   body: Statement[];
@@ -210,7 +292,8 @@ export type Expression =
   | ConditionalExpression
   | NewExpression
   | ThisExpression
-  | AwaitExpression;
+  | AwaitExpression
+  | TSNonNullExpression;
 
 export interface Identifier extends BaseNode {
   type: 'Identifier';
@@ -263,6 +346,7 @@ export interface AssignmentExpression extends BaseNode {
 export interface CallExpression extends BaseNode {
   type: 'CallExpression';
   callee: Expression;
+  typeArguments?: TSType[];
   arguments: Expression[];
 }
 
@@ -297,6 +381,7 @@ export interface FunctionExpression extends BaseNode {
   body: BlockStatement;
   returnType?: TypeAnnotation;
   isAsync?: boolean;
+  typeParameters?: TSTypeParameter[];
 }
 
 export interface ArrowFunctionExpression extends BaseNode {
@@ -317,6 +402,7 @@ export interface ConditionalExpression extends BaseNode {
 export interface NewExpression extends BaseNode {
   type: 'NewExpression';
   callee: Expression;
+  typeArguments?: TSType[];
   arguments: Expression[];
 }
 
@@ -329,6 +415,11 @@ export interface AwaitExpression extends BaseNode {
   argument: Expression;
 }
 
+export interface TSNonNullExpression extends BaseNode {
+  type: 'TSNonNullExpression';
+  expression: Expression;
+}
+
 // Type Annotations
 export interface TypeAnnotation extends BaseNode {
   type: 'TypeAnnotation';
@@ -341,11 +432,14 @@ export type TSType =
   | TSBooleanKeyword
   | TSVoidKeyword
   | TSAnyKeyword
+  | TSNullKeyword
+  | TSUndefinedKeyword
   | TSArrayType
   | TSFunctionType
   | TSTypeReference
   | TSUnionType
-  | TSIntersectionType;
+  | TSIntersectionType
+  | TSLiteralType;
 
 export interface TSStringKeyword extends BaseNode {
   type: 'TSStringKeyword';
@@ -367,6 +461,14 @@ export interface TSAnyKeyword extends BaseNode {
   type: 'TSAnyKeyword';
 }
 
+export interface TSNullKeyword extends BaseNode {
+  type: 'TSNullKeyword';
+}
+
+export interface TSUndefinedKeyword extends BaseNode {
+  type: 'TSUndefinedKeyword';
+}
+
 export interface TSArrayType extends BaseNode {
   type: 'TSArrayType';
   elementType: TSType;
@@ -381,6 +483,14 @@ export interface TSFunctionType extends BaseNode {
 export interface TSTypeReference extends BaseNode {
   type: 'TSTypeReference';
   typeName: Identifier;
+  typeArguments?: TSType[];
+}
+
+export interface TSTypeParameter extends BaseNode {
+  type: 'TSTypeParameter';
+  name: Identifier;
+  constraint?: TSType;
+  default?: TSType;
 }
 
 export interface TSUnionType extends BaseNode {
@@ -392,3 +502,8 @@ export interface TSIntersectionType extends BaseNode {
   type: 'TSIntersectionType';
   types: TSType[];
 }
+
+export interface TSLiteralType extends BaseNode {
+  type: 'TSLiteralType';
+  literal: StringLiteral | NumberLiteral | BooleanLiteral;
+}
@@ -0,0 +1,59 @@
+/**
+ * ScriptRust Build Cache - Remembers converted files by content hash so unchanged ones can be skipped
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CACHE_FILE_NAME = '.scriptrust-cache.json';
+
+// Bumped when the layout of the cache file changes
+const CACHE_VERSION = 1;
+
+export interface CacheEntry {
+  hash: string;
+  outputs: string[];  // Files written for the entry; it is converted again when one has gone
+  warnings: number;
+  check: string;
+}
+
+export class BuildCache {
+  private entries: Record<string, CacheEntry> = {};
+
+  constructor(private file: string) {
+    try {
+      const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (data.version === CACHE_VERSION) this.entries = data.entries;
+    } catch {
+      // A missing or unreadable cache just means converting everything
+    }
+  }
+
+  lookup(key: string, hash: string): CacheEntry | undefined {
+    const entry = this.entries[key];
+    return entry && entry.hash === hash && entry.outputs.every(output => fs.existsSync(output)) ? entry : undefined;
+  }
+
+  store(key: string, entry: CacheEntry): void {
+    this.entries[key] = entry;
+  }
+
+  delete(key: string): void {
+    delete this.entries[key];
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify({ version: CACHE_VERSION, entries: this.entries }, null, 2) + '\n');
+  }
+}
+
+export function hashContents(parts: string[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,108 @@
+/**
+ * ScriptRust Checks - Compiles generated Rust with rustc or cargo to confirm the translation builds
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { RustModule } from './compiler.js';
+import { buildCrate, CrateOptions } from './crate.js';
+import { Diagnostic, DiagnosticCode } from './diagnostics.js';
+import { GeneratedFile, parseRustcDiagnostics } from './rustc-diagnostics.js';
+
+export type CheckMode = 'none' | 'rustc' | 'cargo';
+
+export interface CheckResult {
+  passed: boolean;            // False when the code does not compile, or could not be checked
+  diagnostics: Diagnostic[];  // Mapped to the TypeScript source where possible
+}
+
+// Shared between runs so dependencies are compiled once; cargo locks it against concurrent builds
+const CARGO_TARGET_DIR = path.join(os.tmpdir(), 'scriptrust-cargo-target');
+
+/**
+ * Checks generated modules in a fresh temporary directory, so concurrent runs never collide.
+ * rustc checks the modules alone; cargo builds a crate with the pinned dependencies.
+ * Only errors are reported, as warnings about generated code are rarely actionable.
+ */
+export function checkRust(modules: RustModule[], mode: Exclude<CheckMode, 'none'>, crate: CrateOptions): CheckResult {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scriptrust-check-'));
+
+  try {
+    return mode === 'cargo' ? checkWithCargo(modules, directory, crate) : checkWithRustc(modules, directory, crate.edition ?? '2021');
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+function checkWithRustc(modules: RustModule[], directory: string, edition: string): CheckResult {
+  const files = modules.map(module => ({ module, path: path.join(directory, module.path) }));
+  for (const file of files) writeFile(file.path, file.module.code);
+
+  const result = spawnSync('rustc', [
+    '--edition', edition, '--crate-type', 'lib', '--crate-name', 'scriptrust_check', '--emit=metadata',
+    '--error-format=json', '-A', 'warnings', '--out-dir', directory, files[0].path,
+  ], { encoding: 'utf-8' });
+
+  return toResult('rustc', result, result.stderr, generatedFiles(files));
+}
+
+function checkWithCargo(modules: RustModule[], directory: string, crate: CrateOptions): CheckResult {
+  const [root, ...rest] = modules;
+  let crateFiles;
+  try {
+    crateFiles = buildCrate(root.code, { ...crate, modules: rest.map(module => ({ path: module.path, contents: module.code })) });
+  } catch (error: any) {
+    return { passed: false, diagnostics: [{ code: DiagnosticCode.CheckUnavailable, severity: 'error', message: error.message }] };
+  }
+  for (const file of crateFiles) writeFile(path.join(directory, file.path), file.contents);
+
+  const result = spawnSync('cargo', ['check', '--quiet', '--message-format=json'], {
+    cwd: directory,
+    encoding: 'utf-8',
+    env: { ...process.env, CARGO_TARGET_DIR, RUSTFLAGS: [process.env.RUSTFLAGS, '-A warnings'].filter(Boolean).join(' ') },
+  });
+
+  // Cargo names files relative to the crate; the root module is src/main.rs or src/lib.rs
+  const rootPath = crateFiles.find(file => file.path === 'src/main.rs' || file.path === 'src/lib.rs')!.path;
+  const files = modules.map((module, index) => ({ module, path: index === 0 ? rootPath : 'src/' + module.path }));
+  return toResult('cargo', result, result.stdout, generatedFiles(files));
+}
+
+function toResult(tool: string, result: ReturnType<typeof spawnSync>, output: string, files: GeneratedFile[]): CheckResult {
+  if ((result.error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT') {
+    return {
+      passed: false,
+      diagnostics: [{
+        code: DiagnosticCode.CheckUnavailable,
+        severity: 'warning',
+        message: `\`${tool}\` was not found, so the generated Rust was not checked`,
+        fix: { message: 'install Rust from https://rustup.rs, or pass --check none' },
+      }],
+    };
+  }
+
+  const diagnostics = parseRustcDiagnostics(output, files);
+  if (result.status !== 0 && !diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+    // Failures before compiling, such as a dependency that cannot be fetched, only explain themselves on stderr
+    const stderr = String(result.stderr ?? '').trim();
+    diagnostics.push({
+      code: DiagnosticCode.RustCompileError,
+      severity: 'error',
+      message: `${tool} failed${stderr ? ': ' + stderr : ''}`,
+    });
+  }
+
+  return { passed: result.status === 0, diagnostics };
+}
+
+function generatedFiles(files: { module: RustModule; path: string }[]): GeneratedFile[] {
+  return files.flatMap(({ module, path: file }) =>
+    module.sourceMap && module.fileName ? [{ path: file, fileName: module.fileName, sourceMap: module.sourceMap }] : []);
+}
+
+function writeFile(file: string, contents: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, contents);
+}
@@ -4,54 +4,612 @@
  * ScriptRust CLI - Converts TypeScript files with Rust decorations to Rust code
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
-import { Compiler } from './compiler.js';
+import { fileURLToPath } from 'url';
+import { Compiler, ProjectResult, RustModule } from './compiler.js';
+import { Lexer } from './lexer.js';
+import { Parser } from './parser.js';
+import { buildModuleGraph, SourceHost } from './module-graph.js';
+import { BuildCache, CACHE_FILE_NAME, hashContents } from './build-cache.js';
+import { checkRust, CheckMode } from './check.js';
+import { CompilerOptions, CONFIG_FILE_NAME, parseConfig } from './config.js';
+import { buildCrate, packageName, DependencySpec } from './crate.js';
+import { formatDiagnosticsJson, formatDiagnosticsSarif, ReportFormat } from './diagnostic-report.js';
+import { Diagnostic, DiagnosticCode, formatDiagnostic } from './diagnostics.js';
+import { formatAst, formatAstTree, formatTokens } from './emit.js';
+import { expandGlob, isGlob } from './glob.js';
+import { startLanguageServer } from './lsp.js';
+import { listSourceFiles, watchSources } from './watch.js';
+
+// Pinned crate versions, shipped next to the package
+const DEPENDENCY_CONFIG = fileURLToPath(new URL('../cargo-dependencies.json', import.meta.url));
+
+const VERSION = '0.1.0';
 
 const program = new Command();
 
+const EMIT_KINDS = ['tokens', 'ast', 'ast-tree', 'js', 'rust'];
+type DebugEmitKind = 'tokens' | 'ast' | 'ast-tree' | 'js';
+
+const EMIT_EXTENSIONS: Record<DebugEmitKind, string> = {
+  tokens: '.tokens.json',
+  ast: '.ast.json',
+  'ast-tree': '.ast.txt',
+  js: '.js',
+};
+
+interface ConvertOptions {
+  config?: string;
+  output?: string;
+  emit?: string[];
+  sourceMap?: boolean;
+  check: CheckMode;
+  strict?: boolean;
+  denyLossy?: boolean;
+  watch?: boolean;
+  outDir?: string;
+  cache: boolean;
+  format: ReportFormat;
+}
+
+/**
+ * How one input went, for the summary of a batch
+ */
+interface ConvertResult {
+  file: string;
+  status: 'converted' | 'cached' | 'failed';
+  warnings: number;
+  errors: number;
+  check: 'passed' | 'failed' | 'unavailable' | 'skipped';
+  outputs: string[];
+}
+
+/**
+ * Where output goes: below `outDir`, mirroring the paths of the inputs below `root`; next to each input without it
+ */
+interface OutputLayout {
+  outDir?: string;
+  root: string;
+}
+
+/**
+ * Compiler options from a config file, with the directory its paths are relative to
+ */
+interface ProjectConfig {
+  options: CompilerOptions;
+  directory: string;
+  file?: string;
+}
+
+/**
+ * Reads the config file given, or the nearest scriptrust.config.json in `start` or above it; exits when it is invalid
+ */
+function loadConfig(start: string, explicit?: string): ProjectConfig {
+  let file = explicit && path.resolve(explicit);
+  for (let directory = path.resolve(start); !file; directory = path.dirname(directory)) {
+    const candidate = path.join(directory, CONFIG_FILE_NAME);
+    if (fs.existsSync(candidate)) file = candidate;
+    if (directory === path.dirname(directory)) break;
+  }
+
+  if (!file) {
+    return { options: {}, directory: process.cwd() };
+  }
+
+  try {
+    return { options: parseConfig(fs.readFileSync(file, 'utf-8'), path.relative(process.cwd(), file)), directory: path.dirname(file), file };
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Makes lossy translations errors, whatever level the config gives them
+ */
+function denyLossy(config: ProjectConfig): ProjectConfig {
+  const lints = { ...config.options.lints, [DiagnosticCode.LossyTranslation]: 'deny' as const };
+  return { ...config, options: { ...config.options, lints } };
+}
+
+/**
+ * Where output for a file goes, without extension
+ */
+function outputBase(filePath: string, layout: OutputLayout): string {
+  const base = filePath.replace(/\.ts$/, '');
+  if (!layout.outDir) return base;
+
+  const relative = path.relative(layout.root, base);
+  const inside = !relative.startsWith('..') && !path.isAbsolute(relative);
+  return path.join(layout.outDir, inside ? relative : path.basename(base));
+}
+
+/**
+ * Expands files, directories and globs into the entry files to convert, reporting inputs that match nothing
+ */
+function resolveEntries(inputs: string[], cwd: string): { entries: string[]; missing: string[] } {
+  const files = new Set<string>();
+  const missing: string[] = [];
+
+  for (const input of inputs) {
+    const inputPath = path.resolve(cwd, input);
+    const matches = isGlob(input) ? expandGlob(input, cwd)
+      : !fs.existsSync(inputPath) ? []
+      : fs.statSync(inputPath).isDirectory() ? listSourceFiles(inputPath)
+      : [inputPath];
+
+    if (matches.length === 0) missing.push(input);
+    for (const match of matches) files.add(match);
+  }
+
+  return { entries: entryFiles([...files]), missing };
+}
+
+/**
+ * The deepest directory containing every input, which the output directory mirrors
+ */
+function inputRoot(inputs: string[]): string {
+  const directories = inputs.map(input => {
+    const segments = path.resolve(input).split(path.sep);
+    const firstWild = segments.findIndex(isGlob);
+    const fixed = firstWild >= 0 ? segments.slice(0, firstWild).join(path.sep) || path.sep : path.resolve(input);
+    return fs.existsSync(fixed) && fs.statSync(fixed).isDirectory() ? fixed : path.dirname(fixed);
+  });
+
+  return directories.reduce((common, directory) => {
+    while (common !== path.dirname(common) && path.relative(common, directory).startsWith('..')) {
+      common = path.dirname(common);
+    }
+    return common;
+  });
+}
+
+function loadDependencies(): Record<string, DependencySpec> {
+  return JSON.parse(fs.readFileSync(DEPENDENCY_CONFIG, 'utf-8'));
+}
+
+// With --format json or sarif, diagnostics are collected for a single report rather than printed
+let report: Diagnostic[] | undefined;
+// Where the report goes: stdout, unless the output is written there
+let reportStream: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Prints a status message, to stderr when stdout carries a report
+ */
+function info(message: string): void {
+  if (report) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Prints the collected diagnostics as a report, and starts collecting afresh
+ */
+function flushReport(format: ReportFormat): void {
+  if (!report) return;
+  reportStream.write(format === 'sarif' ? formatDiagnosticsSarif(report, VERSION) : formatDiagnosticsJson(report));
+  report = [];
+}
+
+/**
+ * Prints diagnostics from any file of a project, each with its own source excerpt
+ */
+function printDiagnostics(diagnostics: Diagnostic[], sources: Map<string, string>, defaultFile: string): void {
+  if (report) {
+    report.push(...diagnostics.map(diagnostic => ({ ...diagnostic, file: path.relative(process.cwd(), diagnostic.file ?? defaultFile) })));
+    return;
+  }
+
+  for (const diagnostic of diagnostics) {
+    const fileName = diagnostic.file ?? defaultFile;
+    console.error(formatDiagnostic(diagnostic, sources.get(fileName) ?? '', path.relative(process.cwd(), fileName)) + '\n');
+  }
+}
+
+// Source read from stdin, under a path that stands for it so its imports resolve from the working directory
+const STDIN_FILE = '<stdin>';
+const stdinSources = new Map<string, string>();
+
+// Reads project files from disk for the module graph
+const fileHost: SourceHost = {
+  readFile: fileName => stdinSources.get(fileName)
+    ?? (fs.existsSync(fileName) && fs.statSync(fileName).isFile() ? fs.readFileSync(fileName, 'utf-8') : undefined),
+};
+
+/**
+ * Compiles a file and the files it imports to Rust, printing their diagnostics; undefined when the file is missing
+ */
+function compileFile(file: string, config: ProjectConfig): { filePath: string; result: ProjectResult } | undefined {
+  const filePath = path.resolve(file);
+
+  if (fileHost.readFile(filePath) === undefined) {
+    console.error(`Error: File not found: ${filePath}`);
+    return undefined;
+  }
+
+  const compiler = new Compiler(config.options);
+  const result = compiler.compileProjectToRust(filePath, fileHost);
+
+  printDiagnostics(result.diagnostics, result.sources, filePath);
+
+  if (result.errors.length > 0) {
+    console.error(`Compilation failed with ${result.errors.length} error(s)`);
+  }
+
+  return { filePath, result };
+}
+
+/**
+ * Converts a file to each requested kind of output, then checks generated Rust with rustc
+ */
+function convertFile(file: string, options: ConvertOptions, config: ProjectConfig, layout: OutputLayout): ConvertResult {
+  const filePath = path.resolve(file);
+  const result: ConvertResult = { file: filePath, status: 'failed', warnings: 0, errors: 0, check: 'skipped', outputs: [] };
+  const source = fileHost.readFile(filePath);
+  if (source === undefined) {
+    console.error(`Error: File not found: ${filePath}`);
+    return result;
+  }
+
+  const emit = options.emit?.length ? [...new Set(options.emit)] : ['rust'];
+  const toStdout = options.output === '-';
+  // A single output goes where -o says; several share its name with their own extensions
+  const base = options.output && !toStdout ? options.output.replace(/\.[^./\\]*$/, '') : outputBase(filePath, layout);
+  const outputName = (extension: string) => options.output && !toStdout && emit.length === 1 ? options.output : base + extension;
+  const log = (message: string) => toStdout ? console.error(message) : info(message);
+
+  const outputs: { file: string; contents: string; label: string; module?: RustModule }[] = [];
+  const count = (diagnostics: Diagnostic[]) => {
+    result.warnings += diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+    result.errors += diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  };
+
+  for (const kind of emit.filter(kind => kind !== 'rust')) {
+    if (kind === 'js') {
+      const compiled = new Compiler(config.options).compile(source, path.basename(filePath));
+      // With Rust output as well, the Rust compilation reports the same problems
+      if (!emit.includes('rust')) {
+        printDiagnostics(compiled.diagnostics, new Map([[filePath, source]]), filePath);
+        count(compiled.diagnostics);
+      }
+      if (compiled.errors.length > 0) {
+        result.errors = Math.max(result.errors, compiled.errors.length);
+        continue;
+      }
+      outputs.push({ file: outputName('.js'), contents: compiled.code, label: 'JavaScript' });
+    } else {
+      // Tokens and syntax trees are written even for code that does not parse, to show where it went wrong
+      const tokens = new Lexer(source).tokenize();
+      const contents = kind === 'tokens' ? formatTokens(tokens)
+        : kind === 'ast' ? formatAst(new Parser(tokens).parse())
+        : formatAstTree(new Parser(tokens).parse());
+      outputs.push({ file: outputName(EMIT_EXTENSIONS[kind as DebugEmitKind]), contents, label: kind });
+    }
+  }
+
+  const compiled = emit.includes('rust') ? compileFile(filePath, config) : undefined;
+  if (compiled) count(compiled.result.diagnostics);
+  const modules = compiled && compiled.result.errors.length === 0 ? compiled.result.modules : [];
+
+  // The entry file goes to the output; the modules it imports go next to it, as rustc expects
+  const rootFile = outputName('.rs');
+  for (const module of modules) {
+    const moduleFile = module.modulePath.length === 0 ? rootFile : path.join(path.dirname(rootFile), module.path);
+    outputs.push({ file: moduleFile, contents: module.code, label: 'Rust', module });
+  }
+
+  for (const output of outputs) {
+    if (toStdout) {
+      if (outputs.length > 1) process.stdout.write(`==> ${path.relative(process.cwd(), output.file)} <==\n`);
+      process.stdout.write(output.contents);
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(output.file), { recursive: true });
+    fs.writeFileSync(output.file, output.contents);
+    result.outputs.push(output.file);
+    log(output.label === 'Rust' ? `Converted to Rust: ${output.file}` : `Wrote ${output.label}: ${output.file}`);
+
+    if (options.sourceMap && output.module?.sourceMap) {
+      fs.writeFileSync(output.file + '.map', JSON.stringify(output.module.sourceMap));
+      result.outputs.push(output.file + '.map');
+      log(`Wrote source map: ${output.file}.map`);
+    }
+  }
+
+  // Validate generated Rust code; a check that fails only fails the run under --strict
+  let checkFailed = false;
+  if (compiled && modules.length > 0 && options.check !== 'none') {
+    const check = checkRust(modules, options.check, {
+      name: packageName(filePath),
+      edition: config.options.edition,
+      target: config.options.target,
+      dependencies: loadDependencies(),
+    });
+    printDiagnostics(check.diagnostics, compiled.result.sources, filePath);
+
+    const hasErrors = check.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+    result.check = check.passed ? 'passed' : hasErrors ? 'failed' : 'unavailable';
+    if (check.passed) {
+      log(`✓ Generated Rust code compiles (${options.check})`);
+    } else if (hasErrors) {
+      console.warn(`⚠ Warning: Generated Rust code does not compile (${options.check})`);
+    }
+    checkFailed = !check.passed && !!options.strict;
+  }
+
+  result.status = result.errors > 0 || checkFailed ? 'failed' : 'converted';
+  return result;
+}
+
+/**
+ * Converts many entries, skipping those whose sources and settings are unchanged since the last run,
+ * and prints a summary table
+ */
+function convertAll(entries: string[], options: ConvertOptions, config: ProjectConfig, layout: OutputLayout): ConvertResult[] {
+  const cacheRoot = layout.outDir ?? layout.root;
+  // A report covers every file, so none are skipped for it
+  const cache = options.cache && !report ? new BuildCache(path.join(cacheRoot, CACHE_FILE_NAME)) : undefined;
+  // Anything that changes the output invalidates every entry
+  const settings = JSON.stringify({ version: VERSION, options: config.options, layout, emit: options.emit, check: options.check, strict: options.strict, sourceMap: options.sourceMap });
+  const results: ConvertResult[] = [];
+
+  for (const entry of entries) {
+    const key = path.relative(cacheRoot, entry);
+    const graph = buildModuleGraph(entry, fileHost);
+    const hash = hashContents([settings, ...[...graph.modules.values()].flatMap(node => [node.fileName, node.source])]);
+
+    const cached = cache?.lookup(key, hash);
+    if (cached) {
+      results.push({ file: entry, status: 'cached', warnings: cached.warnings, errors: 0, check: cached.check as ConvertResult['check'], outputs: cached.outputs });
+      continue;
+    }
+
+    let result: ConvertResult;
+    try {
+      result = convertFile(entry, options, config, layout);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      result = { file: entry, status: 'failed', warnings: 0, errors: 1, check: 'skipped', outputs: [] };
+    }
+    results.push(result);
+
+    if (result.status === 'converted') {
+      cache?.store(key, { hash, outputs: result.outputs, warnings: result.warnings, check: result.check });
+    } else {
+      cache?.delete(key);
+    }
+  }
+
+  cache?.save();
+  printSummary(results);
+  return results;
+}
+
+function printSummary(results: ConvertResult[]): void {
+  const rows = [
+    ['File', 'Status', 'Warnings', 'Errors', 'Check'],
+    ...results.map(result => [path.relative(process.cwd(), result.file), result.status, String(result.warnings), String(result.errors), result.check]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+
+  info('');
+  for (const row of rows) {
+    info(row.map((cell, column) => column >= 2 && column <= 3 ? cell.padStart(widths[column]) : cell.padEnd(widths[column])).join('  ').trimEnd());
+  }
+
+  const tally = (status: ConvertResult['status']) => results.filter(result => result.status === status).length;
+  info(`\n${results.length} file(s): ${tally('converted')} converted, ${tally('cached')} cached, ${tally('failed')} failed`);
+}
+
+/**
+ * The files that no other one of them imports, each the entry of its own project
+ */
+function entryFiles(files: string[]): string[] {
+  const imported = new Set<string>();
+
+  for (const file of files) {
+    if (imported.has(file)) continue;
+    const graph = buildModuleGraph(file, fileHost);
+    for (const fileName of graph.modules.keys()) {
+      if (fileName !== graph.entry) imported.add(fileName);
+    }
+  }
+
+  return files.filter(file => !imported.has(file));
+}
+
+/**
+ * Converts `target`, or the files `listEntries` finds, and again whenever a source file below it changes,
+ * until interrupted
+ */
+function watchTarget(target: string, options: ConvertOptions, config: ProjectConfig, layout: OutputLayout, listEntries?: () => string[]): void {
+  const targetPath = path.resolve(target);
+  const isDirectory = fs.statSync(targetPath).isDirectory();
+  const time = () => new Date().toLocaleTimeString();
+
+  const run = () => {
+    const started = performance.now();
+    const entries = listEntries ? listEntries() : isDirectory ? entryFiles(listSourceFiles(targetPath)) : [targetPath];
+    let failed = 0;
+
+    for (const entry of entries) {
+      try {
+        if (convertFile(entry, options, config, layout).status === 'failed') failed++;
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        failed++;
+      }
+    }
+
+    flushReport(options.format);
+    const elapsed = Math.round(performance.now() - started);
+    const status = failed > 0 ? `${failed} of ${entries.length} failed` : `${entries.length} converted`;
+    info(`[${time()}] ${status} in ${elapsed}ms. Watching ${path.relative(process.cwd(), targetPath) || '.'} for changes...`);
+  };
+
+  run();
+  watchSources(targetPath, changed => {
+    info(`\n[${time()}] Changed: ${changed.map(file => path.relative(process.cwd(), file)).join(', ')}`);
+    run();
+  });
+}
+
+/**
+ * Accumulates --emit values, which may also be given comma-separated
+ */
+function collectEmitKinds(value: string, previous: string[]): string[] {
+  const kinds = value.split(',').map(kind => kind.trim());
+  for (const kind of kinds) {
+    if (!EMIT_KINDS.includes(kind)) {
+      throw new InvalidArgumentError(`Expected one of ${EMIT_KINDS.join(', ')}.`);
+    }
+  }
+  return [...previous, ...kinds];
+}
+
 program
   .name('scriptrust')
   .description('Convert TypeScript with Rust decorations to Rust code')
-  .version('0.1.0')
-  .argument('<file>', 'TypeScript file to convert')
-  .option('-o, --output <file>', 'Output file (defaults to <input>.rs)')
-  .action((file: string, options: { output?: string }) => {
-    const filePath = path.resolve(file);
+  .version(VERSION)
+  .argument('[inputs...]', `TypeScript files, directories or globs to convert, or - for stdin; the "include" files of ${CONFIG_FILE_NAME} when absent`)
+  .option('-c, --config <file>', `Config file (defaults to the nearest ${CONFIG_FILE_NAME} above the input)`)
+  .option('-o, --output <file>', 'Output file for a single input (defaults to <input>.rs, or stdout for stdin); - writes to stdout')
+  .option('--out-dir <dir>', 'Directory to write output to, mirroring the layout of the inputs (overrides "outDir")')
+  .option('--emit <kind>', `What to write, repeatable: ${EMIT_KINDS.join(', ')} (defaults to rust)`, collectEmitKinds, [])
+  .option('--source-map', 'Write a source map next to the output (<output>.map)')
+  .addOption(new Option('--check <mode>', 'Compile the generated Rust to check it').choices(['none', 'rustc', 'cargo']).default('rustc'))
+  .option('--strict', 'Exit with an error when the generated Rust does not compile, or cannot be checked')
+  .option('--deny-lossy', 'Fail on placeholders for TypeScript that has no faithful Rust translation')
+  .addOption(new Option('--format <format>', 'How to print diagnostics; json and sarif print one document to stdout, or to stderr when the output goes there').choices(['text', 'json', 'sarif']).default('text'))
+  .option('--no-cache', `Convert every input, even those unchanged since the last run (${CACHE_FILE_NAME})`)
+  .option('-w, --watch', 'Convert again whenever a source file changes')
+  .action((inputs: string[], options: ConvertOptions) => {
+    if (inputs.includes('-')) {
+      if (inputs.length > 1 || options.watch) {
+        console.error('Error: - (stdin) must be the only input, and cannot be watched');
+        process.exit(1);
+      }
+      stdinSources.set(path.resolve(STDIN_FILE), fs.readFileSync(0, 'utf-8'));
+      inputs = [STDIN_FILE];
+      options.output ??= '-';
+    }
 
-    if (!fs.existsSync(filePath)) {
-      console.error(`Error: File not found: ${filePath}`);
-      process.exit(1);
+    if (options.format !== 'text') {
+      report = [];
+      if (options.output === '-') reportStream = process.stderr;
     }
 
-    const source = fs.readFileSync(filePath, 'utf-8');
-    const compiler = new Compiler();
+    const first = inputs[0];
+    const start = !first || isGlob(first) ? process.cwd()
+      : fs.existsSync(first) && fs.statSync(first).isDirectory() ? first
+      : path.dirname(first);
+    let config = loadConfig(start, options.config);
+    if (options.denyLossy) config = denyLossy(config);
 
-    const result = compiler.compileToRust(source);
+    const fromConfig = inputs.length === 0;
+    if (fromConfig && !config.options.include?.length) {
+      console.error(`Error: No input file given, and no "include" in ${config.file ?? CONFIG_FILE_NAME}`);
+      process.exit(1);
+    }
+    const patterns = fromConfig ? config.options.include! : inputs;
+    const cwd = fromConfig ? config.directory : process.cwd();
 
-    if (result.errors.length > 0) {
-      console.error('Compilation errors:');
-      for (const error of result.errors) {
-        console.error(`  ${error.message}`);
+    const layout: OutputLayout = options.outDir
+      ? { outDir: path.resolve(options.outDir), root: inputRoot(patterns.map(pattern => path.resolve(cwd, pattern))) }
+      : config.options.outDir
+        ? { outDir: path.resolve(config.directory, config.options.outDir), root: config.directory }
+        : { root: inputRoot(patterns.map(pattern => path.resolve(cwd, pattern))) };
+
+    // A single file converts as it always has, without a cache or a summary
+    const singleFile = !fromConfig && inputs.length === 1 && !isGlob(first) && !(fs.existsSync(first) && fs.statSync(first).isDirectory());
+    if (singleFile) {
+      if (!options.watch) {
+        const result = convertFile(first, options, config, layout);
+        flushReport(options.format);
+        if (result.status === 'failed') process.exit(1);
+        return;
+      }
+      if (!fs.existsSync(first)) {
+        console.error(`Error: File not found: ${path.resolve(first)}`);
+        process.exit(1);
       }
+      watchTarget(first, options, config, layout);
+      return;
+    }
+
+    if (options.output) {
+      console.error('Error: --output needs a single input file');
       process.exit(1);
     }
 
-    const outputFile = options.output || filePath.replace(/\.ts$/, '.rs');
-    fs.writeFileSync(outputFile, result.code);
-    console.log(`Converted to Rust: ${outputFile}`);
+    const { entries, missing } = resolveEntries(patterns, cwd);
+    if (fromConfig && entries.length === 0) {
+      console.warn(`⚠ Warning: No files match "include" in ${config.file ?? CONFIG_FILE_NAME}`);
+    }
+    if (!fromConfig) {
+      for (const input of missing) console.error(`Error: No files match ${input}`);
+    }
 
-    // Validate generated Rust code with rustc
+    if (options.watch) {
+      watchTarget(fromConfig ? config.directory : layout.root, options, config, layout, () => resolveEntries(patterns, cwd).entries);
+      return;
+    }
+
+    const results = entries.length > 0 ? convertAll(entries, options, config, layout) : [];
+    flushReport(options.format);
+    if (results.some(result => result.status === 'failed') || (!fromConfig && missing.length > 0)) process.exit(1);
+  });
+
+program
+  .command('build')
+  .description('Convert a TypeScript file, and the files it imports, into a Cargo crate')
+  .argument('<file>', 'TypeScript file to convert')
+  .requiredOption('--crate <dir>', 'Directory to write the crate to')
+  .option('-c, --config <file>', `Config file (defaults to the nearest ${CONFIG_FILE_NAME} above the input)`)
+  .option('--deny-lossy', 'Fail on placeholders for TypeScript that has no faithful Rust translation')
+  .action((file: string, options: { crate: string; config?: string; denyLossy?: boolean }) => {
+    let config = loadConfig(path.dirname(path.resolve(file)), options.config);
+    if (options.denyLossy) config = denyLossy(config);
+    const compiled = compileFile(file, config);
+    if (!compiled || compiled.result.errors.length > 0) process.exit(1);
+    const { filePath, result } = compiled;
+    const dependencies = loadDependencies();
+
+    let files;
     try {
-      execSync(`rustc --crate-type lib ${outputFile} -o /tmp/check.out`,
-        { stdio: 'pipe' });
-      console.log('✓ Generated Rust code is valid');
+      const [root, ...modules] = result.modules;
+      files = buildCrate(root.code, {
+        name: packageName(filePath),
+        edition: config.options.edition,
+        target: config.options.target,
+        dependencies,
+        modules: modules.map(module => ({ path: module.path, contents: module.code })),
+      });
     } catch (error: any) {
-      console.warn('⚠ Warning: Generated Rust code may have errors:');
-      console.warn(error.stderr?.toString());
+      console.error(`Error: ${error.message} (${DEPENDENCY_CONFIG})`);
+      process.exit(1);
+    }
+
+    const crateDir = path.resolve(options.crate);
+    for (const crateFile of files) {
+      const target = path.join(crateDir, crateFile.path);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, crateFile.contents);
     }
+    console.log(`Wrote crate: ${crateDir} (${files.map(crateFile => crateFile.path).join(', ')})`);
+  });
+
+program
+  .command('lsp')
+  .description('Start a language server for editors, speaking LSP on stdin and stdout')
+  .option('--stdio', 'Use stdio, the only transport; accepted as editors pass it')
+  .action(() => {
+    startLanguageServer(process.stdin, process.stdout, code => process.exit(code));
   });
 
 program.parse();
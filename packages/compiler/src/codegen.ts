@@ -3,14 +3,17 @@
  */
 
 import * as AST from './ast.js';
+import { SourceMap, SourceMapBuilder } from './source-map.js';
 
 export class CodeGenerator {
   private output: string = '';
   private indentLevel: number = 0;
+  private sourceMap: SourceMapBuilder = new SourceMapBuilder();
 
   generate(program: AST.Program): string {
     this.output = '';
     this.indentLevel = 0;
+    this.sourceMap = new SourceMapBuilder();
 
     for (const statement of program.body) {
       this.generateStatement(statement);
@@ -20,7 +23,16 @@ export class CodeGenerator {
     return this.output;
   }
 
+  /**
+   * Maps the code returned by the last generate() back to `source`
+   */
+  buildSourceMap(file: string, source: string, sourceName: string): SourceMap {
+    return this.sourceMap.build(this.output, file, source, sourceName);
+  }
+
   private generateStatement(node: AST.Statement): void {
+    this.sourceMap.mark(this.output.length, node.position);
+
     switch (node.type) {
       case 'VariableDeclaration':
         this.generateVariableDeclaration(node);
@@ -41,6 +53,9 @@ export class CodeGenerator {
         this.writeIndent();
         this.output += `// type ${node.id.name} = ...\n`;
         break;
+      case 'EnumDeclaration':
+        this.generateEnumDeclaration(node);
+        break;
       case 'ExpressionStatement':
         this.writeIndent();
         this.generateExpression(node.expression);
@@ -58,12 +73,19 @@ export class CodeGenerator {
       case 'IfStatement':
         this.generateIfStatement(node);
         break;
+      case 'SwitchStatement':
+        this.generateSwitchStatement(node);
+        break;
       case 'WhileStatement':
         this.generateWhileStatement(node);
         break;
       case 'ForStatement':
         this.generateForStatement(node);
         break;
+      case 'ForOfStatement':
+      case 'ForInStatement':
+        this.generateForIterationStatement(node);
+        break;
       case 'BlockStatement':
         this.generateBlockStatement(node);
         break;
@@ -84,6 +106,18 @@ export class CodeGenerator {
         this.generateExpression(node.argument);
         this.output += ';\n';
         break;
+      case 'BreakStatement':
+        this.writeIndent();
+        this.output += 'break;\n';
+        break;
+      case 'ContinueStatement':
+        this.writeIndent();
+        this.output += 'continue;\n';
+        break;
+      case 'ErrorNode':
+        this.writeIndent();
+        this.output += '/* syntax error: ' + node.message + ' */\n';
+        break;
     }
   }
 
@@ -162,6 +196,7 @@ export class CodeGenerator {
     this.indentLevel++;
 
     for (const member of node.body.body) {
+      this.sourceMap.mark(this.output.length, member.position);
       if (member.type === 'MethodDefinition') {
         this.writeIndent();
 
@@ -220,6 +255,48 @@ export class CodeGenerator {
     this.output += '}\n';
   }
 
+  private generateEnumDeclaration(node: AST.EnumDeclaration): void {
+    this.writeIndent();
+    this.output += `const ${node.id.name} = Object.freeze({\n`;
+    this.indentLevel++;
+
+    // Members without an initializer continue counting from the previous numeric member
+    let nextValue: number | undefined = 0;
+    for (const member of node.members) {
+      this.writeIndent();
+      const key = member.id.name;
+      this.output += /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+      this.output += ': ';
+
+      if (member.initializer) {
+        this.generateExpression(member.initializer);
+        nextValue = this.enumNumericValue(member.initializer);
+        if (nextValue !== undefined) nextValue++;
+      } else if (nextValue !== undefined) {
+        this.output += nextValue.toString();
+        nextValue++;
+      } else {
+        this.output += 'undefined';
+      }
+
+      this.output += ',\n';
+    }
+
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '});\n';
+  }
+
+  private enumNumericValue(node: AST.Expression): number | undefined {
+    if (node.type === 'NumberLiteral') {
+      return node.value;
+    }
+    if (node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'NumberLiteral') {
+      return -node.argument.value;
+    }
+    return undefined;
+  }
+
   private generateIfStatement(node: AST.IfStatement): void {
     this.writeIndent();
     this.output += 'if (';
@@ -253,6 +330,35 @@ export class CodeGenerator {
     this.output += '\n';
   }
 
+  private generateSwitchStatement(node: AST.SwitchStatement): void {
+    this.writeIndent();
+    this.output += 'switch (';
+    this.generateExpression(node.discriminant);
+    this.output += ') {\n';
+    this.indentLevel++;
+
+    for (const switchCase of node.cases) {
+      this.writeIndent();
+      if (switchCase.test) {
+        this.output += 'case ';
+        this.generateExpression(switchCase.test);
+        this.output += ':\n';
+      } else {
+        this.output += 'default:\n';
+      }
+
+      this.indentLevel++;
+      for (const statement of switchCase.consequent) {
+        this.generateStatement(statement);
+      }
+      this.indentLevel--;
+    }
+
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+  }
+
   private generateWhileStatement(node: AST.WhileStatement): void {
     this.writeIndent();
     this.output += 'while (';
@@ -315,6 +421,39 @@ export class CodeGenerator {
     this.output += '\n';
   }
 
+  private generateForIterationStatement(node: AST.ForOfStatement | AST.ForInStatement): void {
+    this.writeIndent();
+    this.output += `for (${node.kind} `;
+
+    // Add Rust-style decorations as comments
+    if (node.left.decorations && node.left.decorations.length > 0) {
+      for (const decoration of node.left.decorations) {
+        this.output += `/* xxx, ${decoration.keyword}: ${decoration.description} */ `;
+      }
+    }
+
+    if (node.left.type === 'ArrayPattern') {
+      this.output += '[' + node.left.elements.map(element => element.name).join(', ') + ']';
+    } else {
+      this.output += node.left.name;
+    }
+
+    this.output += node.type === 'ForOfStatement' ? ' of ' : ' in ';
+    this.generateExpression(node.right);
+    this.output += ') ';
+
+    if (node.body.type === 'BlockStatement') {
+      this.generateBlockStatement(node.body, false);
+    } else {
+      this.output += '\n';
+      this.indentLevel++;
+      this.generateStatement(node.body);
+      this.indentLevel--;
+    }
+
+    this.output += '\n';
+  }
+
   private generateBlockStatement(node: AST.BlockStatement, writeIndent = true): void {
     if (writeIndent) {
       this.writeIndent();
@@ -525,6 +664,9 @@ export class CodeGenerator {
         this.output += 'await ';
         this.generateExpression(node.argument);
         break;
+      case 'TSNonNullExpression':
+        this.generateExpression(node.expression);
+        break;
     }
   }
 
@@ -6,49 +6,79 @@ import { Lexer } from './lexer.js';
 import { Parser } from './parser.js';
 import { CodeGenerator } from './codegen.js';
 import { RustCodeGenerator } from './rust-codegen.js';
+import { applyLints, CompilerOptions } from './config.js';
+import { Diagnostic, DiagnosticCode, DiagnosticError } from './diagnostics.js';
+import { buildModuleGraph, SourceHost } from './module-graph.js';
+import { SourceMap } from './source-map.js';
 import * as AST from './ast.js';
 
 export interface CompilationResult {
   code: string;
   ast: AST.Program;
   errors: CompilationError[];
+  diagnostics: Diagnostic[];  // Every error, warning and note, in the order they were found
+  sourceMap?: SourceMap;      // Maps `code` back to the source; absent when nothing was generated
 }
 
+/**
+ * One generated Rust module of a project
+ */
+export interface RustModule {
+  path: string;          // Output file relative to the crate root file, e.g. `util/x.rs`
+  modulePath: string[];  // Empty for the crate root
+  code: string;
+  fileName?: string;     // The source file; absent for a module that only declares subdirectories
+  sourceMap?: SourceMap;
+}
+
+export interface ProjectResult {
+  modules: RustModule[];  // The crate root first
+  errors: CompilationError[];
+  diagnostics: Diagnostic[];
+  sources: Map<string, string>;  // Every file read, for rendering diagnostics
+}
+
+/**
+ * An error-severity diagnostic, flattened for callers that only need the message and location
+ */
 export interface CompilationError {
   message: string;
   line?: number;
   column?: number;
+  code?: string;
 }
 
 export class Compiler {
-  compile(source: string): CompilationResult {
-    const errors: CompilationError[] = [];
+  constructor(private options: CompilerOptions = {}) {}
+
+  compile(source: string, fileName: string = 'input.ts'): CompilationResult {
+    const diagnostics: Diagnostic[] = [];
     let ast: AST.Program | null = null;
     let code = '';
+    let sourceMap: SourceMap | undefined;
 
     try {
       // Lexical analysis
       const lexer = new Lexer(source);
       const tokens = lexer.tokenize();
+      diagnostics.push(...lexer.getDiagnostics());
 
-      // Syntax analysis
+      // Syntax analysis, recovering from errors to report all of them
       const parser = new Parser(tokens);
       ast = parser.parse();
-
-      // Code generation
-      const codegen = new CodeGenerator();
-      code = codegen.generate(ast);
+      diagnostics.push(...parser.getDiagnostics());
+
+      // Code generation, only for a program that parsed cleanly
+      if (!diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        const codegen = new CodeGenerator();
+        code = codegen.generate(ast);
+        sourceMap = codegen.buildSourceMap(this.generatedName(fileName, '.js'), source, fileName);
+      }
     } catch (error: any) {
-      errors.push({
-        message: error.message,
-      });
+      diagnostics.push(this.toDiagnostic(error));
     }
 
-    return {
-      code,
-      ast: ast || { type: 'Program', body: [] },
-      errors,
-    };
+    return this.result(code, ast, diagnostics, sourceMap);
   }
 
   compileAndRun(source: string): any {
@@ -63,35 +93,139 @@ export class Compiler {
     return fn();
   }
 
-  compileToRust(source: string): CompilationResult {
-    const errors: CompilationError[] = [];
+  compileToRust(source: string, fileName: string = 'input.ts'): CompilationResult {
+    const diagnostics: Diagnostic[] = [];
     let ast: AST.Program | null = null;
     let code = '';
+    let sourceMap: SourceMap | undefined;
 
     try {
       // Lexical analysis
       const lexer = new Lexer(source);
       const tokens = lexer.tokenize();
+      diagnostics.push(...lexer.getDiagnostics());
 
-      // Syntax analysis
+      // Syntax analysis, recovering from errors to report all of them
       const parser = new Parser(tokens);
       ast = parser.parse();
-
-      // Rust code generation
-      const codegen = new RustCodeGenerator();
-      code = codegen.generate(ast);
+      diagnostics.push(...parser.getDiagnostics());
+
+      // Rust code generation, only for a program that parsed cleanly
+      if (!diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        const codegen = new RustCodeGenerator(this.options);
+        code = codegen.generate(ast);
+        sourceMap = codegen.buildSourceMap(this.generatedName(fileName, '.rs'), source, fileName);
+        diagnostics.push(...codegen.getDiagnostics());
+      }
     } catch (error: any) {
-      errors.push({
-        message: error.message,
+      diagnostics.push(this.toDiagnostic(error));
+    }
+
+    return this.result(code, ast, diagnostics, sourceMap);
+  }
+
+  /**
+   * Compiles an entry file and every file it imports, directly or not, into one Rust module per file
+   */
+  compileProjectToRust(entry: string, host: SourceHost): ProjectResult {
+    const graph = buildModuleGraph(entry, host);
+    const diagnostics = [...graph.diagnostics];
+    const sources = new Map([...graph.modules].map(([fileName, node]) => [fileName, node.source]));
+    const modules: RustModule[] = [];
+
+    if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      return this.projectResult(modules, diagnostics, sources);
+    }
+
+    // Every module declares its children; directories without a file of their own still need one
+    const children = new Map<string, Set<string>>();
+    for (const node of graph.modules.values()) {
+      for (let depth = 1; depth <= node.modulePath.length; depth++) {
+        const parent = node.modulePath.slice(0, depth - 1).join('::');
+        if (!children.has(parent)) children.set(parent, new Set());
+        children.get(parent)!.add(node.modulePath[depth - 1]);
+      }
+    }
+    const rootName = this.generatedName(graph.entry, '.rs');
+    const outputPath = (modulePath: string[]) => modulePath.length === 0 ? rootName : modulePath.join('/') + '.rs';
+
+    for (const node of graph.modules.values()) {
+      try {
+        const codegen = new RustCodeGenerator(this.options);
+        const code = codegen.generate(node.ast, {
+          isEntry: node.modulePath.length === 0,
+          submodules: [...children.get(node.modulePath.join('::')) ?? []],
+          resolveImport: source => {
+            const target = graph.modules.get(node.imports.get(source) ?? '');
+            return target && { path: target.modulePath, program: target.ast };
+          },
+        });
+        const path = outputPath(node.modulePath);
+        modules.push({
+          path,
+          modulePath: node.modulePath,
+          code,
+          fileName: node.fileName,
+          sourceMap: codegen.buildSourceMap(path.split('/').pop()!, node.source, node.fileName),
+        });
+        diagnostics.push(...codegen.getDiagnostics().map(diagnostic => ({ ...diagnostic, file: node.fileName })));
+      } catch (error: any) {
+        diagnostics.push({ ...this.toDiagnostic(error), file: node.fileName });
+      }
+    }
+
+    const generated = new Set(modules.map(module => module.modulePath.join('::')));
+    for (const [parent, names] of children) {
+      if (generated.has(parent)) continue;
+      const modulePath = parent.split('::');
+      modules.push({
+        path: outputPath(modulePath),
+        modulePath,
+        code: [...names].map(name => `pub mod ${name};\n`).join(''),
       });
     }
 
+    return this.projectResult(modules, diagnostics, sources);
+  }
+
+  private result(code: string, ast: AST.Program | null, diagnostics: Diagnostic[], sourceMap: SourceMap | undefined): CompilationResult {
+    const reported = applyLints(diagnostics, this.options.lints);
     return {
       code,
       ast: ast || { type: 'Program', body: [] },
-      errors,
+      errors: this.toErrors(reported),
+      diagnostics: reported,
+      sourceMap,
     };
   }
+
+  private projectResult(modules: RustModule[], diagnostics: Diagnostic[], sources: Map<string, string>): ProjectResult {
+    const reported = applyLints(diagnostics, this.options.lints);
+    return { modules, errors: this.toErrors(reported), diagnostics: reported, sources };
+  }
+
+  private generatedName(fileName: string, extension: string): string {
+    const base = fileName.split(/[\\/]/).pop()!;
+    return base.replace(/\.ts$/, '') + extension;
+  }
+
+  private toDiagnostic(error: any): Diagnostic {
+    if (error instanceof DiagnosticError) {
+      return error.diagnostic;
+    }
+    return { code: DiagnosticCode.InternalError, severity: 'error', message: error.message };
+  }
+
+  private toErrors(diagnostics: Diagnostic[]): CompilationError[] {
+    return diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(diagnostic => ({
+        message: diagnostic.message,
+        line: diagnostic.span?.start.line,
+        column: diagnostic.span?.start.column,
+        code: diagnostic.code,
+      }));
+  }
 }
 
 export { Lexer, Parser, CodeGenerator, RustCodeGenerator };
@@ -0,0 +1,148 @@
+/**
+ * ScriptRust Configuration - Options read from scriptrust.config.json, or passed to the Compiler directly
+ */
+
+import { findDecorationKeyword, NUMERIC_TYPES, suggestDecorationKeyword } from './decorations.js';
+import { Diagnostic, DiagnosticCode, suggestName } from './diagnostics.js';
+
+export const CONFIG_FILE_NAME = 'scriptrust.config.json';
+
+export type LintLevel = 'allow' | 'warn' | 'deny';
+
+export interface CompilerOptions {
+  include?: string[];                     // Globs of the input files, relative to the config file
+  outDir?: string;                        // Where output goes, mirroring the inputs; relative to the config file
+  target?: 'bin' | 'lib';                 // Without it, a binary when there are top-level statements to run
+  edition?: '2015' | '2018' | '2021' | '2024';
+  numbers?: {
+    float?: string;                       // What `number` becomes, f64 by default
+    integer?: string;                     // Type of numeric variables that only ever hold integers, i64 by default
+  };
+  typeMappings?: Record<string, string>;  // Named TypeScript types to Rust types, e.g. `Date` to `chrono::DateTime<chrono::Utc>`
+  decorations?: string[];                 // Decoration keywords to act on; all of them when absent
+  lints?: Record<string, LintLevel>;      // Levels for diagnostics, by code (`SR3002`) or name (`StatementInModule`)
+  publicFields?: boolean;                 // Whether class fields are `pub`, true by default
+}
+
+const EDITIONS = ['2015', '2018', '2021', '2024'];
+const LINT_LEVELS = ['allow', 'warn', 'deny'];
+
+/**
+ * Parses the contents of a config file; throws with the offending field when it is invalid
+ */
+export function parseConfig(text: string, fileName: string = CONFIG_FILE_NAME): CompilerOptions {
+  let config: unknown;
+  try {
+    config = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${fileName}: ${(error as Error).message}`);
+  }
+
+  function fail(message: string): never {
+    throw new Error(`${fileName}: ${message}`);
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const isStringRecord = (value: unknown): value is Record<string, string> =>
+    isObject(value) && Object.values(value).every(item => typeof item === 'string');
+
+  if (!isObject(config)) fail('expected an object');
+
+  // Copy each field once it checks out, so the result only holds what was validated
+  const options: CompilerOptions = {};
+  for (const [key, value] of Object.entries(config)) {
+    switch (key) {
+      case 'include':
+        if (!isStringArray(value)) fail('"include" must be an array of strings');
+        options.include = value;
+        break;
+      case 'decorations':
+        if (!isStringArray(value)) fail('"decorations" must be an array of strings');
+        for (const keyword of value) {
+          if (findDecorationKeyword(keyword)) continue;
+          const suggestion = suggestDecorationKeyword(keyword);
+          fail(`unknown decoration "${keyword}" in "decorations"` + (suggestion ? `; did you mean "${suggestion}"?` : ''));
+        }
+        options.decorations = value;
+        break;
+      case 'outDir':
+        if (typeof value !== 'string') fail('"outDir" must be a string');
+        options.outDir = value;
+        break;
+      case 'target':
+        if (value !== 'bin' && value !== 'lib') fail('"target" must be "bin" or "lib"');
+        options.target = value;
+        break;
+      case 'edition':
+        if (!isEdition(value)) fail(`"edition" must be one of ${EDITIONS.join(', ')}`);
+        options.edition = value;
+        break;
+      case 'numbers': {
+        if (!isStringRecord(value)) fail('"numbers" must be an object of type names');
+        for (const [kind, type] of Object.entries(value)) {
+          if (kind !== 'float' && kind !== 'integer') fail(`unknown field "numbers.${kind}"`);
+          if (!NUMERIC_TYPES.includes(type)) fail(`"numbers.${kind}" must be a Rust numeric type such as f64 or i32`);
+          if (kind === 'integer' && type.startsWith('f')) fail('"numbers.integer" must be an integer type');
+        }
+        options.numbers = value;
+        break;
+      }
+      case 'typeMappings':
+        if (!isStringRecord(value)) fail('"typeMappings" must map type names to Rust types');
+        options.typeMappings = value;
+        break;
+      case 'lints': {
+        if (!isStringRecord(value) || !Object.values(value).every(isLintLevel)) {
+          fail(`"lints" must map diagnostic codes to ${LINT_LEVELS.join(', ')}`);
+        }
+        const known = [...Object.values(DiagnosticCode), ...Object.keys(DiagnosticCode)];
+        for (const lint of Object.keys(value)) {
+          if (known.includes(lint)) continue;
+          const suggestion = suggestName(lint, known);
+          fail(`unknown diagnostic "${lint}" in "lints"` + (suggestion ? `; did you mean "${suggestion}"?` : ''));
+        }
+        options.lints = value as Record<string, LintLevel>;
+        break;
+      }
+      case 'publicFields':
+        if (typeof value !== 'boolean') fail('"publicFields" must be true or false');
+        options.publicFields = value;
+        break;
+      default:
+        fail(`unknown option "${key}"`);
+    }
+  }
+
+  return options;
+}
+
+function isEdition(value: unknown): value is NonNullable<CompilerOptions['edition']> {
+  return EDITIONS.includes(value as string);
+}
+
+function isLintLevel(value: string): value is LintLevel {
+  return LINT_LEVELS.includes(value);
+}
+
+/**
+ * Applies lint levels: `allow` drops a diagnostic, `warn` and `deny` make it a warning or an error.
+ * Errors stay errors, as the compiler cannot carry on past them.
+ */
+export function applyLints(diagnostics: Diagnostic[], lints: Record<string, LintLevel> | undefined): Diagnostic[] {
+  if (!lints) return diagnostics;
+
+  const names = new Map<string, string>(Object.entries(DiagnosticCode).map(([name, code]) => [code, name]));
+  const result: Diagnostic[] = [];
+
+  for (const diagnostic of diagnostics) {
+    const level = lints[diagnostic.code] ?? lints[names.get(diagnostic.code) ?? ''];
+    if (!level || diagnostic.severity === 'error') {
+      result.push(diagnostic);
+    } else if (level !== 'allow') {
+      result.push({ ...diagnostic, severity: level === 'deny' ? 'error' : 'warning' });
+    }
+  }
+
+  return result;
+}
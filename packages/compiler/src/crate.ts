@@ -0,0 +1,88 @@
+/**
+ * ScriptRust Crates - Packages generated Rust as a Cargo crate
+ */
+
+/**
+ * A pinned dependency, as written to Cargo.toml
+ */
+export interface DependencySpec {
+  version: string;
+  features?: string[];
+}
+
+export interface CrateOptions {
+  name: string;
+  edition?: string;
+  target?: 'bin' | 'lib';  // Decided by the presence of `fn main()` when absent
+  dependencies: Record<string, DependencySpec>;  // Pinned versions of every crate the translation may use
+  modules?: CrateFile[];  // Further module files of a multi-file project, relative to `src/`
+}
+
+export interface CrateFile {
+  path: string;  // Relative to the crate root
+  contents: string;
+}
+
+/**
+ * Crates the generated code can refer to, and how to spot each use
+ */
+const CRATE_USES: { name: string; pattern: RegExp }[] = [
+  { name: 'tokio', pattern: /\btokio::/ },
+  { name: 'serde', pattern: /\bserde::/ },
+  { name: 'serde_json', pattern: /\bserde_json::/ },
+];
+
+/**
+ * Lists the external crates generated code depends on, in a stable order
+ */
+export function inferDependencies(code: string): string[] {
+  const used = CRATE_USES.filter(use => use.pattern.test(code)).map(use => use.name);
+  // serde_json serializes through serde's traits
+  if (used.includes('serde_json') && !used.includes('serde')) {
+    used.splice(used.indexOf('serde_json'), 0, 'serde');
+  }
+  return used;
+}
+
+/**
+ * Turns an input file name into a valid Cargo package name, e.g. `My App.ts` becomes `my-app`
+ */
+export function packageName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop()!.replace(/\.ts$/, '');
+  const name = base.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^[-_]+|[-_]+$/g, '');
+  if (!name) return 'scriptrust-output';
+  return /^[0-9]/.test(name) ? 'app-' + name : name;
+}
+
+/**
+ * Lays out a crate around the generated code: a binary when it has an entry point, a library otherwise,
+ * unless the target says which.
+ * Throws when the code needs a crate that has no pinned version.
+ */
+export function buildCrate(code: string, options: CrateOptions): CrateFile[] {
+  const isBinary = options.target ? options.target === 'bin' : /^(?:pub )?(?:async )?fn main\(\)/m.test(code);
+  const manifest = [
+    '[package]',
+    `name = "${options.name}"`,
+    'version = "0.1.0"',
+    `edition = "${options.edition ?? '2021'}"`,
+    '',
+    '[dependencies]',
+  ];
+
+  const modules = options.modules ?? [];
+  for (const name of inferDependencies([code, ...modules.map(module => module.contents)].join('\n'))) {
+    const spec = options.dependencies[name];
+    if (!spec) {
+      throw new Error(`No pinned version for crate \`${name}\`; add it to the dependency config`);
+    }
+    const features = spec.features?.length ? `, features = [${spec.features.map(f => `"${f}"`).join(', ')}]` : '';
+    manifest.push(`${name} = { version = "${spec.version}"${features} }`);
+  }
+
+  return [
+    { path: 'Cargo.toml', contents: manifest.join('\n') + '\n' },
+    { path: isBinary ? 'src/main.rs' : 'src/lib.rs', contents: code },
+    ...modules.map(module => ({ path: 'src/' + module.path, contents: module.contents })),
+  ];
+}
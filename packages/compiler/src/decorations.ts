@@ -0,0 +1,120 @@
+/**
+ * ScriptRust Decorations - The known `/* xxx, keyword: description *\/` keywords, where each may go
+ * and what it may say
+ */
+
+import * as AST from './ast.js';
+import { Diagnostic, DiagnosticCode, suggestName } from './diagnostics.js';
+
+/**
+ * Rust numeric types accepted by the `type` decoration and the numeric defaults
+ */
+export const NUMERIC_TYPES = ['i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'u8', 'u16', 'u32', 'u64', 'u128', 'usize', 'f32', 'f64'];
+
+/**
+ * What a decoration is attached to, as the parser places it
+ */
+export type DecorationTarget = 'variable' | 'parameter' | 'field' | 'function' | 'method' | 'class' | 'enum';
+
+export interface DecorationKeyword {
+  keyword: string;
+  summary: string;             // Shown by editors when completing the keyword
+  targets: DecorationTarget[];
+  values?: string[];           // Allowed first words of the description; any text when absent
+}
+
+export const DECORATION_KEYWORDS: DecorationKeyword[] = [
+  { keyword: 'mut', summary: 'Declares the variable or parameter `mut`', targets: ['variable', 'parameter', 'field'] },
+  { keyword: 'immutable', summary: 'Keeps the value immutable, even when marked mut', targets: ['variable', 'parameter', 'field'] },
+  {
+    keyword: 'ownership',
+    summary: 'Whether the value is owned, borrowed or moved',
+    targets: ['variable', 'parameter', 'method', 'class'],
+    values: ['owned', 'borrowed', 'moved'],
+  },
+  { keyword: 'pure', summary: 'A function without side effects; a pure method takes `&self`', targets: ['function', 'method'] },
+  { keyword: 'throws', summary: 'The function returns a Result with this error type', targets: ['function', 'method'] },
+  {
+    keyword: 'type',
+    summary: 'The Rust numeric type of a number, e.g. u32',
+    targets: ['variable', 'parameter', 'field', 'function', 'method'],
+    values: NUMERIC_TYPES,
+  },
+  { keyword: 'unsafe', summary: 'Marks a potentially unsafe operation', targets: ['function', 'method'] },
+  { keyword: 'lifetime', summary: 'Describes a lifetime constraint', targets: ['parameter', 'field', 'function', 'method'] },
+];
+
+export function findDecorationKeyword(keyword: string): DecorationKeyword | undefined {
+  return DECORATION_KEYWORDS.find(entry => entry.keyword === keyword);
+}
+
+/**
+ * The known keyword closest to a misspelled one, if any is close enough to be what was meant
+ */
+export function suggestDecorationKeyword(keyword: string): string | undefined {
+  return suggestName(keyword, DECORATION_KEYWORDS.map(entry => entry.keyword));
+}
+
+/**
+ * What the decorations of `node` are attached to, given the node that contains it
+ */
+export function decorationTarget(node: AST.BaseNode, parent: AST.BaseNode | undefined): DecorationTarget | undefined {
+  switch (node.type) {
+    case 'FunctionDeclaration': return 'function';
+    case 'FunctionExpression': return parent?.type === 'MethodDefinition' ? 'method' : 'function';
+    case 'PropertyDefinition': return 'field';
+    case 'ClassDeclaration': return 'class';
+    case 'EnumDeclaration': return 'enum';
+    case 'Identifier':
+    case 'ArrayPattern':
+      if (parent?.type === 'Parameter') return 'parameter';
+      if (parent?.type === 'VariableDeclarator' || parent?.type === 'ForOfStatement' || parent?.type === 'ForInStatement') return 'variable';
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks a decoration against the registry: the keyword must be known, allowed where it is, and have a valid value
+ */
+export function validateDecoration(decoration: AST.Decoration, target: DecorationTarget | undefined): Diagnostic | undefined {
+  const span = decoration.position && { start: decoration.position, end: decoration.end ?? decoration.position };
+  const entry = findDecorationKeyword(decoration.keyword);
+
+  if (!entry) {
+    const suggestion = suggestDecorationKeyword(decoration.keyword);
+    return {
+      code: DiagnosticCode.UnknownDecoration,
+      severity: 'warning',
+      message: `Unknown decoration \`${decoration.keyword}\` has no effect`,
+      span,
+      fix: { message: suggestion ? `did you mean \`${suggestion}\`?` : `known decorations are ${DECORATION_KEYWORDS.map(known => known.keyword).join(', ')}` },
+    };
+  }
+
+  if (!target || !entry.targets.includes(target)) {
+    return {
+      code: DiagnosticCode.MisplacedDecoration,
+      severity: 'warning',
+      message: `Decoration \`${entry.keyword}\` does not apply to ${target ? 'a ' + target : 'this'} and has no effect`,
+      span,
+      fix: { message: `\`${entry.keyword}\` goes on a ${entry.targets.join(', ')}` },
+    };
+  }
+
+  const value = decoration.description.trim().split(/[\s,;]+/)[0];
+  if (entry.values && !entry.values.includes(value)) {
+    return {
+      code: DiagnosticCode.InvalidDecorationValue,
+      severity: 'warning',
+      message: value
+        ? `\`${value}\` is not a valid value for decoration \`${entry.keyword}\``
+        : `Decoration \`${entry.keyword}\` needs a value`,
+      span,
+      fix: { message: `expected one of ${entry.values.join(', ')}` },
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,97 @@
+/**
+ * ScriptRust Diagnostic Reports - Diagnostics as JSON or SARIF documents, for CI and dashboards
+ */
+
+import { Diagnostic, DiagnosticCode, Span } from './diagnostics.js';
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * The name of a code in DiagnosticCode, e.g. `StatementInModule` for SR3002
+ */
+function codeName(code: DiagnosticCode): string {
+  return Object.entries(DiagnosticCode).find(([, value]) => value === code)?.[0] ?? code;
+}
+
+/**
+ * A JSON document of every diagnostic with its file, span, code, severity and message, and their counts
+ */
+export function formatDiagnosticsJson(diagnostics: Diagnostic[]): string {
+  const count = (severity: string) => diagnostics.filter(diagnostic => diagnostic.severity === severity).length;
+
+  return JSON.stringify({
+    version: 1,
+    summary: { errors: count('error'), warnings: count('warning'), infos: count('info') },
+    diagnostics: diagnostics.map(diagnostic => ({
+      file: diagnostic.file,
+      code: diagnostic.code,
+      name: codeName(diagnostic.code),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      span: diagnostic.span,
+      related: diagnostic.related,
+      fix: diagnostic.fix,
+    })),
+  }, null, 2) + '\n';
+}
+
+/**
+ * A SARIF 2.1.0 log of the diagnostics, with one rule per diagnostic code
+ */
+export function formatDiagnosticsSarif(diagnostics: Diagnostic[], version: string): string {
+  const codes = [...new Set(diagnostics.map(diagnostic => diagnostic.code))].sort();
+  const level = (diagnostic: Diagnostic) => diagnostic.severity === 'info' ? 'note' : diagnostic.severity;
+
+  const location = (file: string | undefined, span: Span | undefined) => ({
+    physicalLocation: {
+      artifactLocation: { uri: (file ?? '<input>').replace(/\\/g, '/') },
+      ...(span ? { region: sarifRegion(span) } : {}),
+    },
+  });
+
+  const results = diagnostics.map(diagnostic => ({
+    ruleId: diagnostic.code,
+    ruleIndex: codes.indexOf(diagnostic.code),
+    level: level(diagnostic),
+    message: { text: diagnostic.message },
+    locations: [location(diagnostic.file, diagnostic.span)],
+    ...(diagnostic.related?.length ? {
+      relatedLocations: diagnostic.related.map((related, id) => ({
+        id,
+        ...location(diagnostic.file, related.span),
+        message: { text: related.message },
+      })),
+    } : {}),
+    ...(diagnostic.fix?.span && diagnostic.fix.replacement !== undefined ? {
+      fixes: [{
+        description: { text: diagnostic.fix.message },
+        artifactChanges: [{
+          artifactLocation: { uri: (diagnostic.file ?? '<input>').replace(/\\/g, '/') },
+          replacements: [{ deletedRegion: sarifRegion(diagnostic.fix.span), insertedContent: { text: diagnostic.fix.replacement } }],
+        }],
+      }],
+    } : {}),
+  }));
+
+  return JSON.stringify({
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ScriptRust',
+          version,
+          rules: codes.map(code => ({ id: code, name: codeName(code) })),
+        },
+      },
+      results,
+    }],
+  }, null, 2) + '\n';
+}
+
+// SARIF regions are 1-based with an exclusive end column, as spans are
+function sarifRegion(span: Span) {
+  return { startLine: span.start.line, startColumn: span.start.column, endLine: span.end.line, endColumn: span.end.column };
+}
@@ -0,0 +1,153 @@
+/**
+ * ScriptRust Diagnostics - Errors, warnings and notes reported by every compiler stage
+ */
+
+import { Position } from './ast.js';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * Stable codes for every diagnostic: SR1xxx lexer, SR2xxx parser, SR3xxx code generation, SR4xxx modules,
+ * SR5xxx checks of the generated Rust
+ */
+export enum DiagnosticCode {
+  InternalError = 'SR0001',
+
+  UnexpectedCharacter = 'SR1001',
+  UnterminatedString = 'SR1002',
+
+  UnexpectedToken = 'SR2001',
+  ExpectedExpression = 'SR2002',
+  ExpectedType = 'SR2003',
+  ExpectedDeclaration = 'SR2004',
+  ExpectedName = 'SR2005',
+
+  ConflictingMain = 'SR3001',
+  StatementInModule = 'SR3002',
+  DisabledDecoration = 'SR3003',
+  LossyTranslation = 'SR3004',
+  UnknownDecoration = 'SR3005',
+  MisplacedDecoration = 'SR3006',
+  InvalidDecorationValue = 'SR3007',
+
+  UnresolvedImport = 'SR4001',
+  CircularImport = 'SR4002',
+
+  RustCompileError = 'SR5001',
+  CheckUnavailable = 'SR5002',
+}
+
+/**
+ * A source range; `end` is exclusive, lines and columns are 1-based
+ */
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export interface RelatedInformation {
+  message: string;
+  span: Span;
+}
+
+/**
+ * A suggested edit: insert or replace `span` with `replacement`
+ */
+export interface DiagnosticFix {
+  message: string;
+  replacement?: string;
+  span?: Span;
+}
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: Severity;
+  message: string;
+  span?: Span;
+  related?: RelatedInformation[];
+  fix?: DiagnosticFix;
+  file?: string;  // Set when compiling more than one file
+}
+
+/**
+ * Thrown by a stage that cannot continue; carries the diagnostic to report
+ */
+export class DiagnosticError extends Error {
+  constructor(public readonly diagnostic: Diagnostic) {
+    super(diagnostic.message);
+    this.name = 'DiagnosticError';
+  }
+}
+
+/**
+ * Renders a diagnostic the way rustc does, with the source line and a caret underline:
+ *
+ *   error[SR2001]: Expected ), found {
+ *    --> main.ts:3:12
+ *     |
+ *   3 | function f(a {
+ *     |              ^
+ *     = help: insert `)`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, source: string, fileName: string = '<input>'): string {
+  const lines = [`${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}`];
+  const width = String(diagnostic.span?.end.line ?? 1).length;
+  const gutter = ' '.repeat(width);
+
+  if (diagnostic.span) {
+    const { start, end } = diagnostic.span;
+    const text = source.split('\n')[start.line - 1]?.replace(/\r$/, '') ?? '';
+    const endColumn = end.line === start.line ? end.column : text.length + 1;
+    // Keep tabs in the indent so the carets line up with the excerpt
+    const indent = text.slice(0, start.column - 1).replace(/[^\t]/g, ' ');
+
+    lines.push(`${gutter}--> ${fileName}:${start.line}:${start.column}`);
+    lines.push(`${gutter} |`);
+    lines.push(`${String(start.line).padStart(width)} | ${text}`);
+    lines.push(`${gutter} | ${indent}${'^'.repeat(Math.max(1, endColumn - start.column))}`);
+  }
+
+  for (const related of diagnostic.related ?? []) {
+    lines.push(`${gutter} = note: ${related.message} at ${fileName}:${related.span.start.line}:${related.span.start.column}`);
+  }
+
+  if (diagnostic.fix) {
+    lines.push(`${gutter} = help: ${diagnostic.fix.message}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The candidate closest to a misspelled name, ignoring case, if any is close enough to be what was meant
+ */
+export function suggestName(name: string, candidates: string[]): string | undefined {
+  const limit = name.length > 4 ? 2 : 1;
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best?.candidate;
+}
+
+/**
+ * Levenshtein distance: the fewest single-character insertions, deletions and substitutions from a to b
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
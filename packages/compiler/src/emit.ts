@@ -0,0 +1,83 @@
+/**
+ * ScriptRust Debug Output - Renders tokens and syntax trees for inspecting a translation
+ */
+
+import { Token } from './lexer.js';
+import * as AST from './ast.js';
+
+/**
+ * Tokens as a JSON array, one token per line so the output diffs and greps well
+ */
+export function formatTokens(tokens: Token[]): string {
+  if (tokens.length === 0) return '[]\n';
+  return '[\n' + tokens.map(token => '  ' + JSON.stringify(token)).join(',\n') + '\n]\n';
+}
+
+export function formatAst(ast: AST.Program): string {
+  return JSON.stringify(ast, null, 2) + '\n';
+}
+
+/**
+ * An indented tree with one node per line: the property holding it, its type and range,
+ * its plain fields and its decorations, e.g. `id: Identifier 1:10-1:14 name="main"`
+ */
+export function formatAstTree(node: AST.BaseNode): string {
+  const lines = [describeNode(node)];
+  writeChildren(node, '', lines);
+  return lines.join('\n') + '\n';
+}
+
+function writeChildren(node: AST.BaseNode, indent: string, lines: string[]): void {
+  const children = childEntries(node);
+
+  children.forEach(([label, child], index) => {
+    const last = index === children.length - 1;
+    lines.push(indent + (last ? '└─ ' : '├─ ') + label + ': ' + describeNode(child));
+    writeChildren(child, indent + (last ? '   ' : '│  '), lines);
+  });
+}
+
+/**
+ * Child nodes labelled with their property, and an index for those in a list
+ */
+function childEntries(node: AST.BaseNode): [string, AST.BaseNode][] {
+  const entries: [string, AST.BaseNode][] = [];
+
+  for (const [key, value] of Object.entries(node)) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (isNode(item)) entries.push([`${key}[${index}]`, item]);
+      });
+    } else if (isNode(value)) {
+      entries.push([key, value]);
+    }
+  }
+
+  return entries;
+}
+
+function describeNode(node: AST.BaseNode): string {
+  let text = node.type;
+
+  if (node.position) {
+    text += ` ${node.position.line}:${node.position.column}`;
+    if (node.end) text += `-${node.end.line}:${node.end.column}`;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'type') continue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      text += ` ${key}=${JSON.stringify(value)}`;
+    }
+  }
+
+  for (const decoration of node.decorations ?? []) {
+    text += ` /* xxx, ${decoration.keyword}${decoration.description ? ': ' + decoration.description : ''} */`;
+  }
+
+  return text;
+}
+
+function isNode(value: unknown): value is AST.BaseNode {
+  return !!value && typeof value === 'object' && typeof (value as AST.BaseNode).type === 'string';
+}
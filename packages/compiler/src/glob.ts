@@ -0,0 +1,79 @@
+/**
+ * ScriptRust Globs - Expands the file patterns of the CLI and the config file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Converts a glob to a regular expression over `/`-separated relative paths.
+ * Supports `*` and `?` within a path segment, `**` across segments and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      if (pattern[i + 2] === '/') {
+        source += '(?:[^/]*/)*';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close < 0) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = pattern.slice(i + 1, close).split(',');
+      source += '(?:' + alternatives.map(alternative => globToRegExp(alternative).source.slice(1, -1)).join('|') + ')';
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp('^' + source + '$');
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Lists the files matching a glob, relative to `cwd` unless the pattern is absolute, in a stable order.
+ * Only the directory the pattern starts in is walked, skipping dependencies and hidden directories.
+ */
+export function expandGlob(pattern: string, cwd: string = process.cwd()): string[] {
+  const absolute = path.resolve(cwd, pattern).replace(/\\/g, '/');
+  const segments = absolute.split('/');
+  const firstWild = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstWild).join('/') || '/';
+  const matcher = globToRegExp(segments.slice(firstWild).join('/'));
+
+  if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) return [];
+
+  const files: string[] = [];
+  const walk = (directory: string, relative: string) => {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const entryRelative = relative ? relative + '/' + entry.name : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) walk(path.join(directory, entry.name), entryRelative);
+      } else if (matcher.test(entryRelative)) {
+        files.push(path.join(directory, entry.name));
+      }
+    }
+  };
+  walk(base, '');
+
+  return files.sort();
+}
@@ -2,7 +2,17 @@
  * ScriptRust Compiler - Public API
  */
 
-export { Compiler, CompilationResult, CompilationError } from './compiler';
+export { Compiler, CompilationResult, CompilationError, ProjectResult, RustModule } from './compiler';
+export { applyLints, parseConfig, CompilerOptions, LintLevel, CONFIG_FILE_NAME } from './config';
+export { Diagnostic, DiagnosticCode, DiagnosticError, DiagnosticFix, RelatedInformation, Severity, Span, formatDiagnostic } from './diagnostics';
+export { formatDiagnosticsJson, formatDiagnosticsSarif, ReportFormat } from './diagnostic-report';
+export { buildCrate, inferDependencies, packageName, CrateFile, CrateOptions, DependencySpec } from './crate';
+export { buildModuleGraph, ModuleGraph, ModuleNode, SourceHost } from './module-graph';
+export { formatAst, formatAstTree, formatTokens } from './emit';
+export { LanguageService, CompletionItem, DefinitionLocation, Hover, LspDiagnostic, TextPosition, TextRange } from './language-service';
+export { DECORATION_KEYWORDS, DecorationKeyword, DecorationTarget, findDecorationKeyword, validateDecoration } from './decorations';
+export { parseRustcDiagnostics, GeneratedFile } from './rustc-diagnostics';
+export { SourceMap, Mapping, SourceMapBuilder, originalPositionFor, remapLocations } from './source-map';
 export { Lexer, TokenType, Token } from './lexer';
 export { Parser } from './parser';
 export { CodeGenerator } from './codegen';
@@ -0,0 +1,373 @@
+/**
+ * ScriptRust Language Service - Diagnostics, hover, definitions and completion for editors,
+ * in terms of the Language Server Protocol
+ */
+
+import * as AST from './ast.js';
+import { Compiler } from './compiler.js';
+import { CompilerOptions } from './config.js';
+import { DECORATION_KEYWORDS, findDecorationKeyword } from './decorations.js';
+import { Diagnostic } from './diagnostics.js';
+import { Lexer } from './lexer.js';
+import { buildModuleGraph, normalizePath, SourceHost } from './module-graph.js';
+import { Parser } from './parser.js';
+import { RustCodeGenerator } from './rust-codegen.js';
+
+/**
+ * A position in a document; unlike source spans, lines and characters are 0-based
+ */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+export interface TextRange {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+export interface LspDiagnostic {
+  range: TextRange;
+  severity: 1 | 2 | 3;  // Error, warning, information
+  code: string;
+  source: 'scriptrust';
+  message: string;
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range?: TextRange;
+}
+
+export interface DefinitionLocation {
+  fileName: string;
+  range: TextRange;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: 12 | 14;  // Value, keyword
+  detail: string;
+  insertText: string;
+}
+
+type Declaration =
+  | AST.VariableDeclarator
+  | AST.Parameter
+  | AST.FunctionDeclaration
+  | AST.ClassDeclaration
+  | AST.InterfaceDeclaration
+  | AST.EnumDeclaration
+  | AST.TypeAliasDeclaration
+  | AST.MethodDefinition
+  | AST.PropertyDefinition
+  | AST.ImportSpecifier;
+
+/**
+ * Answers editor requests about documents, reading them and the files they import through `host`
+ */
+export class LanguageService {
+  constructor(private host: SourceHost, private options: (fileName: string) => CompilerOptions = () => ({})) {}
+
+  /**
+   * Compiles a document as the entry of a project, returning the diagnostics that belong to it
+   */
+  getDiagnostics(fileName: string): LspDiagnostic[] {
+    const entry = normalizePath(fileName);
+    const result = new Compiler(this.options(fileName)).compileProjectToRust(entry, this.host);
+    return result.diagnostics
+      .filter(diagnostic => !diagnostic.file || diagnostic.file === entry)
+      .map(toLspDiagnostic);
+  }
+
+  /**
+   * The Rust a document becomes on its own, with the diagnostics that stop it compiling in their place
+   */
+  getGeneratedRust(fileName: string): string {
+    const entry = normalizePath(fileName);
+    const result = new Compiler(this.options(fileName)).compileProjectToRust(entry, this.host);
+    if (result.errors.length > 0) {
+      return result.errors.map(error => `// error[${error.code}]: ${error.message} (${error.line}:${error.column})`).join('\n') + '\n';
+    }
+    return result.modules.map(module => result.modules.length > 1 ? `// ${module.path}\n${module.code}` : module.code).join('\n');
+  }
+
+  /**
+   * The decorations of the declaration under the cursor, and the Rust type it becomes
+   */
+  getHover(fileName: string, position: TextPosition): Hover | undefined {
+    const ast = this.parse(fileName);
+    if (!ast) return undefined;
+
+    const path = nodePath(ast, position);
+    const target = path[path.length - 1];
+    if (target?.type !== 'Identifier') return undefined;
+
+    // An imported name shows the declaration it imports, typed in its own file
+    let declaration = declarationOf(path);
+    let program = ast;
+    if (declaration?.type === 'ImportSpecifier') {
+      const imported = this.followImport(fileName, ast, declaration);
+      if (imported) ({ declaration, program } = imported);
+    }
+    if (!declaration) return undefined;
+
+    const generator = new RustCodeGenerator(this.options(fileName));
+    generator.generate(program);
+
+    const lines = ['```rust', rustSignature(declaration, generator), '```'];
+    const decorations = decorationsOf(declaration);
+    if (decorations.length > 0) {
+      lines.push('', ...decorations.map(decoration =>
+        `\`${decoration.keyword}\`` + (decoration.description ? ` — ${decoration.description}` : '')));
+    }
+
+    return { contents: { kind: 'markdown', value: lines.join('\n') }, range: toRange(target) };
+  }
+
+  /**
+   * Where the function or class named under the cursor is declared, following imports into other files
+   */
+  getDefinition(fileName: string, position: TextPosition): DefinitionLocation | undefined {
+    const ast = this.parse(fileName);
+    if (!ast) return undefined;
+
+    const path = nodePath(ast, position);
+    if (path[path.length - 1]?.type !== 'Identifier') return undefined;
+
+    const declaration = declarationOf(path);
+    if (declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') {
+      return { fileName: normalizePath(fileName), range: toRange(declaration.id) };
+    }
+    if (declaration?.type !== 'ImportSpecifier') return undefined;
+
+    const imported = this.followImport(fileName, ast, declaration);
+    if (imported?.declaration.type !== 'FunctionDeclaration' && imported?.declaration.type !== 'ClassDeclaration') return undefined;
+    return { fileName: imported.fileName, range: toRange(imported.declaration.id) };
+  }
+
+  /**
+   * Decoration keywords where the keyword of a `/* xxx, keyword: value *\/` comment goes, and the values
+   * a keyword allows where its value goes
+   */
+  getCompletions(fileName: string, position: TextPosition): CompletionItem[] {
+    const line = this.host.readFile(normalizePath(fileName))?.split('\n')[position.line] ?? '';
+    const before = line.slice(0, position.character);
+
+    if (/\/\*\s*xxx\s*,\s*[A-Za-z_]*$/.test(before)) {
+      return DECORATION_KEYWORDS.map(({ keyword, summary }) => ({ label: keyword, kind: 14, detail: summary, insertText: keyword + ': ' }));
+    }
+
+    const keyword = /\/\*\s*xxx\s*,\s*([A-Za-z_]+)\s*:\s*[A-Za-z0-9_]*$/.exec(before)?.[1];
+    const entry = keyword ? findDecorationKeyword(keyword) : undefined;
+    return (entry?.values ?? []).map(value => ({ label: value, kind: 12, detail: entry!.summary, insertText: value }));
+  }
+
+  /**
+   * The declaration an import names, in the file it resolves to
+   */
+  private followImport(fileName: string, ast: AST.Program, specifier: AST.ImportSpecifier) {
+    const entry = normalizePath(fileName);
+    const importDeclaration = ast.body.find((statement): statement is AST.ImportDeclaration =>
+      statement.type === 'ImportDeclaration' && statement.specifiers.includes(specifier));
+    const graph = buildModuleGraph(entry, this.host);
+    const target = importDeclaration && graph.modules.get(entry)?.imports.get(importDeclaration.source.value);
+    const module = target ? graph.modules.get(target) : undefined;
+    const declaration = module && topLevelDeclarations(module.ast)
+      .find(candidate => candidate.type !== 'ImportSpecifier' && declaredName(candidate) === specifier.imported.name);
+    return declaration && { fileName: module.fileName, program: module.ast, declaration };
+  }
+
+  private parse(fileName: string): AST.Program | undefined {
+    const source = this.host.readFile(normalizePath(fileName));
+    return source === undefined ? undefined : new Parser(new Lexer(source).tokenize()).parse();
+  }
+}
+
+function toLspDiagnostic(diagnostic: Diagnostic): LspDiagnostic {
+  const start = diagnostic.span ? toPosition(diagnostic.span.start) : { line: 0, character: 0 };
+  const end = diagnostic.span ? toPosition(diagnostic.span.end) : start;
+  return {
+    range: { start, end },
+    severity: diagnostic.severity === 'error' ? 1 : diagnostic.severity === 'warning' ? 2 : 3,
+    code: diagnostic.code,
+    source: 'scriptrust',
+    message: diagnostic.fix ? `${diagnostic.message}\nhelp: ${diagnostic.fix.message}` : diagnostic.message,
+  };
+}
+
+function toPosition(position: AST.Position): TextPosition {
+  return { line: position.line - 1, character: position.column - 1 };
+}
+
+function toRange(node: AST.BaseNode): TextRange {
+  const start = toPosition(node.position!);
+  return { start, end: node.end ? toPosition(node.end) : start };
+}
+
+function children(node: AST.BaseNode): AST.BaseNode[] {
+  const result: AST.BaseNode[] = [];
+  for (const value of Object.values(node)) {
+    for (const candidate of Array.isArray(value) ? value : [value]) {
+      if (candidate && typeof candidate === 'object' && typeof candidate.type === 'string') {
+        result.push(candidate);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The nodes from the program down to the innermost one containing `position`
+ */
+function nodePath(program: AST.Program, position: TextPosition): AST.BaseNode[] {
+  const contains = (node: AST.BaseNode) => {
+    if (!node.position || !node.end) return false;
+    const start = toPosition(node.position);
+    const end = toPosition(node.end);
+    const afterStart = position.line > start.line || (position.line === start.line && position.character >= start.character);
+    const beforeEnd = position.line < end.line || (position.line === end.line && position.character < end.character);
+    return afterStart && beforeEnd;
+  };
+
+  const path: AST.BaseNode[] = [program];
+  for (let node: AST.BaseNode | undefined = program; node;) {
+    node = children(node).find(contains);
+    if (node) path.push(node);
+  }
+  return path;
+}
+
+/**
+ * The declarations a function body, block or program introduces directly
+ */
+function topLevelDeclarations(block: AST.Program | AST.BlockStatement): Declaration[] {
+  const declarations: Declaration[] = [];
+  for (const statement of block.body) {
+    const declaration = statement.type === 'ExportDeclaration' ? statement.declaration : statement;
+    switch (declaration.type) {
+      case 'VariableDeclaration':
+        declarations.push(...declaration.declarations);
+        break;
+      case 'ImportDeclaration':
+        declarations.push(...declaration.specifiers);
+        break;
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'InterfaceDeclaration':
+      case 'EnumDeclaration':
+      case 'TypeAliasDeclaration':
+        declarations.push(declaration);
+        break;
+    }
+  }
+  return declarations;
+}
+
+function declaredName(declaration: Declaration): string {
+  switch (declaration.type) {
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+      return declaration.key.name;
+    case 'ImportSpecifier':
+      return (declaration.local ?? declaration.imported).name;
+    default:
+      return declaration.id.name;
+  }
+}
+
+/**
+ * The declaration the identifier at the end of `path` declares or refers to, searching the scopes around it
+ */
+function declarationOf(path: AST.BaseNode[]): Declaration | undefined {
+  const identifier = path[path.length - 1] as AST.Identifier;
+  const parent = path[path.length - 2];
+
+  // The identifier names the declaration itself
+  switch (parent?.type) {
+    case 'VariableDeclarator':
+    case 'Parameter':
+    case 'FunctionDeclaration':
+    case 'ClassDeclaration':
+    case 'InterfaceDeclaration':
+    case 'EnumDeclaration':
+    case 'TypeAliasDeclaration':
+      if ((parent as AST.VariableDeclarator).id === identifier) return parent as Declaration;
+      break;
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+      if ((parent as AST.MethodDefinition).key === identifier) return parent as Declaration;
+      break;
+    case 'ImportSpecifier':
+      return parent as AST.ImportSpecifier;
+    case 'MemberExpression':
+      // Members are looked up on their object's type, which the language service does not know
+      if ((parent as AST.MemberExpression).property === identifier && !(parent as AST.MemberExpression).computed) return undefined;
+      break;
+  }
+
+  for (let i = path.length - 2; i >= 0; i--) {
+    const scope = path[i];
+    let candidates: Declaration[] = [];
+    switch (scope.type) {
+      case 'Program':
+      case 'BlockStatement':
+        candidates = topLevelDeclarations(scope as AST.BlockStatement);
+        break;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        candidates = (scope as AST.FunctionDeclaration).params;
+        break;
+      case 'ForStatement': {
+        const init = (scope as AST.ForStatement).init;
+        if (init?.type === 'VariableDeclaration') candidates = init.declarations;
+        break;
+      }
+    }
+
+    const found = candidates.find(candidate => declaredName(candidate) === identifier.name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function decorationsOf(declaration: Declaration): AST.Decoration[] {
+  const nodes: (AST.BaseNode | undefined)[] = [declaration];
+  if ('id' in declaration) nodes.push(declaration.id);
+  if (declaration.type === 'MethodDefinition') nodes.push(declaration.key, declaration.value);
+  if (declaration.type === 'PropertyDefinition') nodes.push(declaration.key);
+  return nodes.flatMap(node => node?.decorations ?? []);
+}
+
+/**
+ * How the declaration reads in the generated Rust, e.g. `fn area(r: f64) -> f64` or `count: i64`
+ */
+function rustSignature(declaration: Declaration, generator: RustCodeGenerator): string {
+  switch (declaration.type) {
+    case 'FunctionDeclaration':
+    case 'MethodDefinition': {
+      const fn = declaration.type === 'FunctionDeclaration' ? declaration : declaration.value;
+      const params = fn.params.map(param => {
+        const type = generator.rustTypeOf(param);
+        return type ? `${param.id.name}: ${type}` : param.id.name;
+      });
+      const returns = generator.rustTypeOf(declaration);
+      return `fn ${declaredName(declaration)}(${params.join(', ')})` + (returns && returns !== '()' ? ` -> ${returns}` : '');
+    }
+    case 'ClassDeclaration':
+      return `struct ${declaration.id.name}`;
+    case 'InterfaceDeclaration':
+      return `trait ${declaration.id.name}`;
+    case 'EnumDeclaration':
+      return `enum ${declaration.id.name}`;
+    case 'TypeAliasDeclaration':
+      return `type ${declaration.id.name}`;
+    case 'ImportSpecifier':
+      return `use ${declaration.imported.name}`;
+    default: {
+      const type = generator.rustTypeOf(declaration);
+      return type ? `${declaredName(declaration)}: ${type}` : declaredName(declaration);
+    }
+  }
+}
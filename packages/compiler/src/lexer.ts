@@ -2,6 +2,9 @@
  * ScriptRust Lexer - Tokenizes ScriptRust source code
  */
 
+import { Position } from './ast.js';
+import { Diagnostic, DiagnosticCode } from './diagnostics.js';
+
 export enum TokenType {
   // Literals
   NUMBER = 'NUMBER',
@@ -23,6 +26,9 @@ export enum TokenType {
   FOR = 'FOR',
   BREAK = 'BREAK',
   CONTINUE = 'CONTINUE',
+  SWITCH = 'SWITCH',
+  CASE = 'CASE',
+  DEFAULT = 'DEFAULT',
   CLASS = 'CLASS',
   INTERFACE = 'INTERFACE',
   TYPE = 'TYPE',
@@ -67,8 +73,11 @@ export enum TokenType {
   BITWISE_NOT = 'BITWISE_NOT',
   PLUS_EQUALS = 'PLUS_EQUALS',
   MINUS_EQUALS = 'MINUS_EQUALS',
+  INCREMENT = 'INCREMENT',
+  DECREMENT = 'DECREMENT',
   ARROW = 'ARROW',
   QUESTION = 'QUESTION',
+  NULLISH = 'NULLISH',
   COLON = 'COLON',
   DOT = 'DOT',
   SPREAD = 'SPREAD',
@@ -94,11 +103,15 @@ export interface Token {
   value: string;
   line: number;
   column: number;
+  offset: number;  // 0-based character index of the first character
+  end: Position;   // Just past the last character
 }
 
 export interface Decoration {
   keyword: string;
   description: string;
+  position?: Position;
+  end?: Position;
 }
 
 const KEYWORDS: Record<string, TokenType> = {
@@ -113,6 +126,9 @@ const KEYWORDS: Record<string, TokenType> = {
   for: TokenType.FOR,
   break: TokenType.BREAK,
   continue: TokenType.CONTINUE,
+  switch: TokenType.SWITCH,
+  case: TokenType.CASE,
+  default: TokenType.DEFAULT,
   class: TokenType.CLASS,
   interface: TokenType.INTERFACE,
   type: TokenType.TYPE,
@@ -140,7 +156,9 @@ export class Lexer {
   private position: number = 0;
   private line: number = 1;
   private column: number = 1;
+  private start: number = 0;
   private tokens: Token[] = [];
+  private diagnostics: Diagnostic[] = [];
 
   constructor(input: string) {
     this.input = input;
@@ -151,6 +169,7 @@ export class Lexer {
       this.skipWhitespace();
       if (this.position >= this.input.length) break;
 
+      this.start = this.position;
       const char = this.current();
 
       // Comments
@@ -192,10 +211,18 @@ export class Lexer {
       this.readOperator();
     }
 
+    this.start = this.position;
     this.addToken(TokenType.EOF, '');
     return this.tokens;
   }
 
+  /**
+   * Problems found while tokenizing; the offending characters are skipped so tokenizing can go on
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
   private current(): string {
     return this.input[this.position];
   }
@@ -353,6 +380,14 @@ export class Lexer {
 
     if (this.current() === quote) {
       this.advance(); // closing quote
+    } else {
+      this.diagnostics.push({
+        code: DiagnosticCode.UnterminatedString,
+        severity: 'error',
+        message: 'Unterminated string literal',
+        span: { start: { line: startLine, column: startColumn, offset: this.start }, end: this.here() },
+        fix: { message: `add the closing ${quote}`, replacement: quote },
+      });
     }
 
     this.addToken(TokenType.STRING, value, startLine, startColumn);
@@ -444,6 +479,20 @@ export class Lexer {
       return;
     }
 
+    if (char === '+' && next === '+') {
+      this.advance();
+      this.advance();
+      this.addToken(TokenType.INCREMENT, '++', startLine, startColumn);
+      return;
+    }
+
+    if (char === '-' && next === '-') {
+      this.advance();
+      this.advance();
+      this.addToken(TokenType.DECREMENT, '--', startLine, startColumn);
+      return;
+    }
+
     if (char === '+' && next === '=') {
       this.advance();
       this.advance();
@@ -465,6 +514,13 @@ export class Lexer {
       return;
     }
 
+    if (char === '?' && next === '?') {
+      this.advance();
+      this.advance();
+      this.addToken(TokenType.NULLISH, '??', startLine, startColumn);
+      return;
+    }
+
     if (char === '.' && next === '.' && this.peek(2) === '.') {
       this.advance();
       this.advance();
@@ -502,7 +558,15 @@ export class Lexer {
       case ';': this.addToken(TokenType.SEMICOLON, singleChar, startLine, startColumn); break;
       case ',': this.addToken(TokenType.COMMA, singleChar, startLine, startColumn); break;
       default:
-        throw new Error(`Unexpected character '${singleChar}' at line ${startLine}, column ${startColumn}`);
+        this.diagnostics.push({
+          code: DiagnosticCode.UnexpectedCharacter,
+          severity: 'error',
+          message: `Unexpected character '${singleChar}'`,
+          span: {
+            start: { line: startLine, column: startColumn, offset: this.start },
+            end: { line: startLine, column: startColumn + 1, offset: this.start + 1 },
+          },
+        });
     }
   }
 
@@ -518,12 +582,21 @@ export class Lexer {
     return this.isAlpha(char) || this.isDigit(char);
   }
 
+  private here(): Position {
+    return { line: this.line, column: this.column, offset: this.position };
+  }
+
+  /**
+   * Called once the token's characters are consumed, so the current position is its end
+   */
   private addToken(type: TokenType, value: string, line?: number, column?: number): void {
     this.tokens.push({
       type,
       value,
       line: line ?? this.line,
       column: column ?? this.column,
+      offset: this.start,
+      end: this.here(),
     });
   }
 }
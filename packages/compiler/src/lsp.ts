@@ -0,0 +1,282 @@
+/**
+ * ScriptRust Language Server - Serves the language service to editors as JSON-RPC over stdio
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { CompilerOptions, CONFIG_FILE_NAME, parseConfig } from './config.js';
+import { LanguageService, TextPosition } from './language-service.js';
+import { SourceHost } from './module-graph.js';
+
+export interface Message {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string };
+}
+
+interface TextDocumentPositionParams extends TextDocumentParams {
+  position: TextPosition;
+}
+
+interface DidOpenParams {
+  textDocument: { uri: string; text: string };
+}
+
+interface DidChangeParams extends TextDocumentParams {
+  contentChanges: { text: string }[];  // Whole documents, as the server syncs in full
+}
+
+interface ExecuteCommandParams {
+  command: string;
+  arguments?: unknown[];
+}
+
+// Sent with `workspace/executeCommand` and a document URI; answered with the Rust it becomes
+export const SHOW_RUST_COMMAND = 'scriptrust.showGeneratedRust';
+
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+// Returned for methods the server does not implement
+const UNHANDLED = Symbol('unhandled');
+
+/**
+ * An error answered with its own JSON-RPC code rather than as an internal error
+ */
+class ResponseError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Splits a byte stream into messages framed by `Content-Length` headers
+ */
+export class MessageReader {
+  private buffer = Buffer.alloc(0);
+
+  constructor(private onMessage: (message: Message | undefined) => void) {}
+
+  push(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+
+      const length = /Content-Length:\s*(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString('ascii'));
+      const bodyStart = headerEnd + 4;
+      if (!length) {
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: Message | undefined;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        // Reported to the client as a parse error
+      }
+      this.onMessage(message);
+    }
+  }
+}
+
+export function encodeMessage(message: Message): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+/**
+ * Answers LSP requests read from `input` on `output` until the client sends `exit`, then calls `onExit`
+ * with the exit code the protocol asks for
+ */
+export function startLanguageServer(input: Readable, output: Writable, onExit: (code: number) => void = () => {}): void {
+  const documents = new Map<string, string>();  // Open documents by file name, which take precedence over disk
+  const host: SourceHost = {
+    readFile: fileName => documents.get(fileName)
+      ?? (fs.existsSync(fileName) && fs.statSync(fileName).isFile() ? fs.readFileSync(fileName, 'utf-8') : undefined),
+  };
+  const service = new LanguageService(host, optionsFor);
+  let shuttingDown = false;
+
+  const send = (message: Omit<Message, 'jsonrpc'>) => output.write(encodeMessage({ jsonrpc: '2.0', ...message }));
+
+  // Diagnostics depend on imported files too, so every open document is checked again
+  const publishAll = () => {
+    for (const fileName of documents.keys()) {
+      send({ method: 'textDocument/publishDiagnostics', params: { uri: toUri(fileName), diagnostics: service.getDiagnostics(fileName) } });
+    }
+  };
+
+  const handle = (method: string, params: unknown): unknown => {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: 1,  // Full documents
+            hoverProvider: true,
+            definitionProvider: true,
+            completionProvider: { triggerCharacters: [',', ' '] },
+            executeCommandProvider: { commands: [SHOW_RUST_COMMAND] },
+          },
+          serverInfo: { name: 'scriptrust' },
+        };
+      case 'shutdown':
+        shuttingDown = true;
+        return null;
+      case 'textDocument/didOpen': {
+        const { textDocument } = checkParams(method, params, isDidOpenParams);
+        documents.set(toFileName(textDocument.uri), textDocument.text);
+        publishAll();
+        return undefined;
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = checkParams(method, params, isDidChangeParams);
+        documents.set(toFileName(textDocument.uri), contentChanges[contentChanges.length - 1].text);
+        publishAll();
+        return undefined;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = checkParams(method, params, isTextDocumentParams);
+        documents.delete(toFileName(textDocument.uri));
+        send({ method: 'textDocument/publishDiagnostics', params: { uri: textDocument.uri, diagnostics: [] } });
+        return undefined;
+      }
+      case 'textDocument/hover': {
+        const { textDocument, position } = checkParams(method, params, isTextDocumentPositionParams);
+        return service.getHover(toFileName(textDocument.uri), position) ?? null;
+      }
+      case 'textDocument/definition': {
+        const { textDocument, position } = checkParams(method, params, isTextDocumentPositionParams);
+        const definition = service.getDefinition(toFileName(textDocument.uri), position);
+        return definition ? { uri: toUri(definition.fileName), range: definition.range } : null;
+      }
+      case 'textDocument/completion': {
+        const { textDocument, position } = checkParams(method, params, isTextDocumentPositionParams);
+        return service.getCompletions(toFileName(textDocument.uri), position);
+      }
+      case 'workspace/executeCommand': {
+        const { command, arguments: args } = checkParams(method, params, isExecuteCommandParams);
+        const uri = args?.[0];
+        if (command !== SHOW_RUST_COMMAND || typeof uri !== 'string') {
+          throw new Error(`Unknown command ${command}`);
+        }
+        return service.getGeneratedRust(toFileName(uri));
+      }
+      default:
+        return UNHANDLED;
+    }
+  };
+
+  const reader = new MessageReader(message => {
+    if (!message) {
+      send({ id: null, error: { code: PARSE_ERROR, message: 'Invalid JSON' } });
+      return;
+    }
+    if (!message.method) return;  // Responses to requests the server never makes
+    if (message.method === 'exit') {
+      onExit(shuttingDown ? 0 : 1);
+      return;
+    }
+
+    const isRequest = message.id !== undefined;
+    try {
+      const result = handle(message.method, message.params);
+      if (result === UNHANDLED) {
+        if (isRequest) send({ id: message.id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method ${message.method}` } });
+      } else if (isRequest) {
+        send({ id: message.id, result: result ?? null });
+      }
+    } catch (error) {
+      const code = error instanceof ResponseError ? error.code : INTERNAL_ERROR;
+      if (isRequest) send({ id: message.id, error: { code, message: (error as Error).message } });
+    }
+  });
+
+  input.on('data', (chunk: Buffer) => reader.push(chunk));
+  input.on('end', () => onExit(shuttingDown ? 0 : 1));
+}
+
+/**
+ * The params of a message, once they have the shape `method` takes; a client that sends others gets an error
+ */
+function checkParams<T>(method: string, params: unknown, isValid: (params: unknown) => params is T): T {
+  if (!isValid(params)) {
+    throw new ResponseError(INVALID_PARAMS, `Invalid params for ${method}`);
+  }
+  return params;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTextDocumentParams(params: unknown): params is TextDocumentParams & Record<string, unknown> {
+  return isRecord(params) && isRecord(params.textDocument) && typeof params.textDocument.uri === 'string';
+}
+
+function isTextDocumentPositionParams(params: unknown): params is TextDocumentPositionParams {
+  return isTextDocumentParams(params) && isRecord(params.position)
+    && typeof params.position.line === 'number' && typeof params.position.character === 'number';
+}
+
+function isDidOpenParams(params: unknown): params is DidOpenParams {
+  return isRecord(params) && isRecord(params.textDocument)
+    && typeof params.textDocument.uri === 'string' && typeof params.textDocument.text === 'string';
+}
+
+function isDidChangeParams(params: unknown): params is DidChangeParams {
+  return isTextDocumentParams(params) && Array.isArray(params.contentChanges) && params.contentChanges.length > 0
+    && params.contentChanges.every(change => isRecord(change) && typeof change.text === 'string');
+}
+
+function isExecuteCommandParams(params: unknown): params is ExecuteCommandParams {
+  return isRecord(params) && typeof params.command === 'string'
+    && (params.arguments === undefined || Array.isArray(params.arguments));
+}
+
+function toFileName(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+function toUri(fileName: string): string {
+  return path.isAbsolute(fileName) ? pathToFileURL(fileName).href : fileName;
+}
+
+/**
+ * Options from the nearest config file above a document; defaults when there is none, or it is invalid,
+ * as the editor has nowhere to show the problem
+ */
+function optionsFor(fileName: string): CompilerOptions {
+  if (!path.isAbsolute(fileName)) return {};
+
+  for (let directory = path.dirname(fileName); ; directory = path.dirname(directory)) {
+    const candidate = path.join(directory, CONFIG_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      try {
+        return parseConfig(fs.readFileSync(candidate, 'utf-8'), candidate);
+      } catch {
+        return {};
+      }
+    }
+    if (directory === path.dirname(directory)) return {};
+  }
+}
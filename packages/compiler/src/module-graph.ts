@@ -0,0 +1,200 @@
+/**
+ * ScriptRust Module Graph - Follows relative imports from an entry file to every file of a project
+ */
+
+import { Lexer } from './lexer.js';
+import { Parser } from './parser.js';
+import { Diagnostic, DiagnosticCode } from './diagnostics.js';
+import * as AST from './ast.js';
+
+/**
+ * Where the graph reads files from; paths use `/` separators
+ */
+export interface SourceHost {
+  readFile(fileName: string): string | undefined;
+}
+
+export interface ModuleNode {
+  fileName: string;
+  source: string;
+  ast: AST.Program;
+  modulePath: string[];          // Rust path below `crate`, empty for the entry file
+  imports: Map<string, string>;  // Import source as written to the file it resolved to
+}
+
+export interface ModuleGraph {
+  entry: string;
+  modules: Map<string, ModuleNode>;  // By file name, in discovery order
+  diagnostics: Diagnostic[];         // Every diagnostic carries the file it belongs to
+}
+
+export function buildModuleGraph(entry: string, host: SourceHost): ModuleGraph {
+  const entryName = normalizePath(entry);
+  const root = dirname(entryName);
+  const modules = new Map<string, ModuleNode>();
+  const diagnostics: Diagnostic[] = [];
+  const pending = [entryName];
+
+  while (pending.length > 0) {
+    const fileName = pending.shift()!;
+    if (modules.has(fileName)) continue;
+
+    const source = host.readFile(fileName);
+    if (source === undefined) {
+      diagnostics.push({ code: DiagnosticCode.UnresolvedImport, severity: 'error', message: `Cannot read ${fileName}`, file: fileName });
+      continue;
+    }
+
+    const lexer = new Lexer(source);
+    const parser = new Parser(lexer.tokenize());
+    const ast = parser.parse();
+    for (const diagnostic of [...lexer.getDiagnostics(), ...parser.getDiagnostics()]) {
+      diagnostics.push({ ...diagnostic, file: fileName });
+    }
+
+    const modulePath = fileName === entryName ? [] : modulePathOf(fileName, root);
+    const node: ModuleNode = { fileName, source, ast, modulePath, imports: new Map() };
+    modules.set(fileName, node);
+
+    for (const declaration of importDeclarations(ast)) {
+      const specifier = declaration.source.value;
+      if (!specifier.startsWith('./') && !specifier.startsWith('../')) continue;
+
+      const resolved = resolveImport(host, dirname(fileName), specifier);
+      if (!resolved) {
+        diagnostics.push(importError(`Cannot find module '${specifier}'`, declaration, fileName));
+      } else if (relativeTo(root, resolved) === undefined) {
+        diagnostics.push(importError(`Module '${specifier}' is outside the project directory ${root}`, declaration, fileName));
+      } else {
+        node.imports.set(specifier, resolved);
+        pending.push(resolved);
+      }
+    }
+  }
+
+  diagnostics.push(...findCycles(entryName, modules));
+  return { entry: entryName, modules, diagnostics };
+}
+
+/**
+ * Reports each import that closes a cycle, e.g. a.ts imports b.ts which imports a.ts again
+ */
+function findCycles(entry: string, modules: Map<string, ModuleNode>): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const finished = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (fileName: string) => {
+    const node = modules.get(fileName);
+    if (!node) return;
+    stack.push(fileName);
+
+    for (const declaration of importDeclarations(node.ast)) {
+      const target = node.imports.get(declaration.source.value);
+      if (!target || finished.has(target)) continue;
+
+      const start = stack.indexOf(target);
+      if (start >= 0) {
+        const cycle = [...stack.slice(start), target].map(name => name.slice(name.lastIndexOf('/') + 1)).join(' -> ');
+        diagnostics.push({
+          ...importError(`Circular import: ${cycle}`, declaration, fileName),
+          severity: 'warning',
+          code: DiagnosticCode.CircularImport,
+          fix: { message: 'move the shared declarations into a module both files import' },
+        });
+      } else {
+        visit(target);
+      }
+    }
+
+    stack.pop();
+    finished.add(fileName);
+  };
+
+  visit(entry);
+  return diagnostics;
+}
+
+function importDeclarations(ast: AST.Program): AST.ImportDeclaration[] {
+  return ast.body.filter((statement): statement is AST.ImportDeclaration => statement.type === 'ImportDeclaration');
+}
+
+function importError(message: string, declaration: AST.ImportDeclaration, fileName: string): Diagnostic {
+  const source = declaration.source;
+  return {
+    code: DiagnosticCode.UnresolvedImport,
+    severity: 'error',
+    message,
+    span: source.position && { start: source.position, end: source.end ?? source.position },
+    file: fileName,
+  };
+}
+
+function resolveImport(host: SourceHost, directory: string, specifier: string): string | undefined {
+  const base = normalizePath(directory + '/' + specifier);
+  const candidates = base.endsWith('.ts') ? [base] : [base + '.ts', base + '/index.ts'];
+  return candidates.find(candidate => host.readFile(candidate) !== undefined);
+}
+
+/**
+ * `util/string-tools.ts` below the root becomes `util::string_tools`; an index file stands for its directory
+ */
+function modulePathOf(fileName: string, root: string): string[] {
+  const relative = relativeTo(root, fileName);
+  if (relative === undefined) return [];
+  return toModulePath(relative);
+}
+
+/**
+ * The module path a relative import names from a file in the project root, without reading the file;
+ * undefined when it leaves that directory
+ */
+export function importedModulePath(specifier: string): string[] | undefined {
+  const relative = normalizePath(specifier);
+  if (relative === '' || relative.startsWith('..') || relative.startsWith('/')) return undefined;
+  return toModulePath(relative);
+}
+
+function toModulePath(relative: string): string[] {
+  const segments = relative.replace(/\.ts$/, '').split('/');
+  if (segments.length > 1 && segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+  return segments.map(segment => {
+    const name = segment.replace(/[^A-Za-z0-9_]/g, '_').toLowerCase();
+    return /^[0-9]/.test(name) ? '_' + name : name;
+  });
+}
+
+/**
+ * The path of `fileName` inside `directory`, or undefined when it lies outside
+ */
+function relativeTo(directory: string, fileName: string): string | undefined {
+  if (directory === '.') {
+    return fileName.startsWith('../') || fileName.startsWith('/') ? undefined : fileName;
+  }
+  const prefix = directory.endsWith('/') ? directory : directory + '/';
+  return fileName.startsWith(prefix) ? fileName.slice(prefix.length) : undefined;
+}
+
+export function normalizePath(fileName: string): string {
+  const absolute = fileName.startsWith('/');
+  const parts: string[] = [];
+
+  for (const part of fileName.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+
+  return (absolute ? '/' : '') + parts.join('/');
+}
+
+function dirname(fileName: string): string {
+  const index = fileName.lastIndexOf('/');
+  if (index < 0) return '.';
+  return index === 0 ? '/' : fileName.slice(0, index);
+}
@@ -3,12 +3,35 @@
  */
 
 import { Token, TokenType, Decoration } from './lexer.js';
+import { Diagnostic, DiagnosticCode, DiagnosticError, DiagnosticFix, Span } from './diagnostics.js';
 import * as AST from './ast.js';
 
+/**
+ * Closing tokens the parser can suggest inserting when they are missing
+ */
+const INSERTABLE_TOKENS: Partial<Record<TokenType, string>> = {
+  [TokenType.RPAREN]: ')',
+  [TokenType.RBRACE]: '}',
+  [TokenType.RBRACKET]: ']',
+  [TokenType.GREATER_THAN]: '>',
+  [TokenType.COLON]: ':',
+};
+
+/**
+ * Tokens that begin a statement; error recovery resumes parsing at them
+ */
+const STATEMENT_KEYWORDS = new Set<TokenType>([
+  TokenType.LET, TokenType.CONST, TokenType.VAR, TokenType.FUNCTION, TokenType.ASYNC, TokenType.CLASS,
+  TokenType.INTERFACE, TokenType.TYPE, TokenType.ENUM, TokenType.IF, TokenType.SWITCH, TokenType.WHILE,
+  TokenType.FOR, TokenType.RETURN, TokenType.BREAK, TokenType.CONTINUE, TokenType.TRY, TokenType.THROW,
+  TokenType.IMPORT, TokenType.EXPORT, TokenType.DECORATION,
+]);
+
 export class Parser {
   private tokens: Token[];
   private current: number = 0;
   private pendingDecorations: Decoration[] = [];
+  private diagnostics: Diagnostic[] = [];
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -18,7 +41,7 @@ export class Parser {
     const body: AST.Statement[] = [];
 
     while (!this.isAtEnd()) {
-      const stmt = this.statement();
+      const stmt = this.recoverableStatement(true);
       if (stmt) {
         body.push(stmt);
       }
@@ -27,27 +50,95 @@ export class Parser {
     return {
       type: 'Program',
       body,
+      position: { line: 1, column: 1, offset: 0 },
+      end: this.peek().end,
     };
   }
 
-  private statement(): AST.Statement | null {
-    // Collect decorations
-    while (this.match(TokenType.DECORATION)) {
-      const decoration = JSON.parse(this.previous().value) as Decoration;
-      this.pendingDecorations.push(decoration);
+  /**
+   * Syntax errors recorded while parsing; each failed statement became an ErrorNode
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Parses a statement, or records the syntax error and skips ahead to the next statement boundary
+   */
+  private recoverableStatement(topLevel: boolean): AST.Statement | null {
+    const start = this.current;
+    try {
+      return this.statement();
+    } catch (error) {
+      if (!(error instanceof DiagnosticError)) throw error;
+
+      this.diagnostics.push(error.diagnostic);
+      this.pendingDecorations = [];
+      this.synchronize(start, topLevel);
+      return this.finishNode<AST.ErrorNode>({ type: 'ErrorNode', message: error.diagnostic.message }, this.tokens[start]);
+    }
+  }
+
+  /**
+   * Panic mode: skips tokens until just after a `;`, before a statement keyword, or before the `}`
+   * that closes the enclosing block. Nested braces are skipped whole; at the top level a stray `}`
+   * is dropped. Always makes progress so a failing statement cannot be retried forever.
+   */
+  private synchronize(start: number, topLevel: boolean): void {
+    if (this.current === start) {
+      this.advance();
+      if (this.previous().type === TokenType.SEMICOLON) return;
+    }
+
+    let depth = this.previous().type === TokenType.LBRACE ? 1 : 0;
+    while (!this.isAtEnd()) {
+      if (this.previous().type === TokenType.SEMICOLON && depth === 0) return;
+
+      const token = this.peek();
+      if (token.type === TokenType.RBRACE) {
+        if (depth === 0 && !topLevel) return;
+        depth = Math.max(depth - 1, 0);
+        this.advance();
+        if (depth === 0) return;
+        continue;
+      }
+      if (token.type === TokenType.LBRACE) {
+        depth++;
+      } else if (depth === 0 && STATEMENT_KEYWORDS.has(token.type)) {
+        return;
+      }
+      this.advance();
     }
+  }
+
+  private statement(): AST.Statement | null {
+    this.collectDecorations();
 
     if (this.match(TokenType.IMPORT)) return this.importDeclaration();
     if (this.match(TokenType.EXPORT)) return this.exportDeclaration();
-    if (this.match(TokenType.FUNCTION)) return this.functionDeclaration();
+    if (this.match(TokenType.FUNCTION)) return this.functionDeclaration(false);
+    if (this.check(TokenType.ASYNC) && this.checkNext(TokenType.FUNCTION)) {
+      const start = this.advance();
+      this.advance();
+      return this.functionDeclaration(true, start);
+    }
     if (this.match(TokenType.CLASS)) return this.classDeclaration();
     if (this.match(TokenType.INTERFACE)) return this.interfaceDeclaration();
     if (this.match(TokenType.TYPE)) return this.typeAliasDeclaration();
+    if (this.match(TokenType.ENUM)) return this.enumDeclaration(false);
+    if (this.check(TokenType.CONST) && this.checkNext(TokenType.ENUM)) {
+      const start = this.advance();
+      this.advance();
+      return this.enumDeclaration(true, start);
+    }
     if (this.match(TokenType.LET, TokenType.CONST, TokenType.VAR)) return this.variableDeclaration();
     if (this.match(TokenType.IF)) return this.ifStatement();
+    if (this.match(TokenType.SWITCH)) return this.switchStatement();
     if (this.match(TokenType.WHILE)) return this.whileStatement();
     if (this.match(TokenType.FOR)) return this.forStatement();
     if (this.match(TokenType.RETURN)) return this.returnStatement();
+    if (this.match(TokenType.BREAK)) return this.breakStatement();
+    if (this.match(TokenType.CONTINUE)) return this.continueStatement();
     if (this.match(TokenType.LBRACE)) return this.blockStatement();
     if (this.match(TokenType.TRY)) return this.tryStatement();
     if (this.match(TokenType.THROW)) return this.throwStatement();
@@ -56,6 +147,7 @@ export class Parser {
   }
 
   private importDeclaration(): AST.ImportDeclaration {
+    const start = this.previous();
     const specifiers: AST.ImportSpecifier[] = [];
 
     if (this.match(TokenType.LBRACE)) {
@@ -67,21 +159,21 @@ export class Parser {
           local = this.consume(TokenType.IDENTIFIER, 'Expected identifier after as');
         }
 
-        specifiers.push({
+        specifiers.push(this.finishNode({
           type: 'ImportSpecifier',
-          imported: { type: 'Identifier', name: imported.value },
-          local: local !== imported ? { type: 'Identifier', name: local.value } : undefined,
-        });
+          imported: this.identifier(imported),
+          local: local !== imported ? this.identifier(local) : undefined,
+        }, imported));
       } while (this.match(TokenType.COMMA));
 
       this.consume(TokenType.RBRACE, 'Expected }');
     } else {
       const defaultImport = this.consume(TokenType.IDENTIFIER, 'Expected identifier');
-      specifiers.push({
+      specifiers.push(this.finishNode({
         type: 'ImportSpecifier',
-        imported: { type: 'Identifier', name: 'default' },
-        local: { type: 'Identifier', name: defaultImport.value },
-      });
+        imported: this.finishNode({ type: 'Identifier', name: 'default' }, defaultImport),
+        local: this.identifier(defaultImport),
+      }, defaultImport));
     }
 
     this.consume(TokenType.FROM, 'Expected from');
@@ -89,28 +181,29 @@ export class Parser {
 
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'ImportDeclaration',
       specifiers,
-      source: { type: 'StringLiteral', value: source.value },
-    };
+      source: this.finishNode({ type: 'StringLiteral', value: source.value }, source),
+    }, start);
   }
 
   private exportDeclaration(): AST.ExportDeclaration {
+    const start = this.previous();
     const declaration = this.statement();
     if (!declaration) {
-      throw new Error('Expected declaration after export');
+      throw this.error(DiagnosticCode.ExpectedDeclaration, 'Expected declaration after export', this.peek());
     }
 
-    return {
+    return this.finishNode({
       type: 'ExportDeclaration',
       declaration,
-    };
+    }, start);
   }
 
-  private functionDeclaration(): AST.FunctionDeclaration {
-    const isAsync = this.previous().type === TokenType.ASYNC;
+  private functionDeclaration(isAsync: boolean, start: Token = this.previous()): AST.FunctionDeclaration {
     const id = this.consume(TokenType.IDENTIFIER, 'Expected function name');
+    const typeParameters = this.match(TokenType.LESS_THAN) ? this.typeParameters() : undefined;
 
     // Save function decorations before parsing parameters
     const decorations = this.pendingDecorations;
@@ -128,40 +221,53 @@ export class Parser {
     this.consume(TokenType.LBRACE, 'Expected {');
     const body = this.blockStatement();
 
-    return {
+    return this.finishNode({
       type: 'FunctionDeclaration',
-      id: { type: 'Identifier', name: id.value },
+      id: this.identifier(id),
       params,
       body,
       returnType,
       isAsync,
+      typeParameters,
       decorations: decorations.length > 0 ? decorations : undefined,
-    };
+    }, start);
   }
 
   private classDeclaration(): AST.ClassDeclaration {
+    const start = this.previous();
     const id = this.consume(TokenType.IDENTIFIER, 'Expected class name');
+    const typeParameters = this.match(TokenType.LESS_THAN) ? this.typeParameters() : undefined;
 
-    this.consume(TokenType.LBRACE, 'Expected {');
+    // Take the class's own decorations before its members collect theirs
+    const decorations = this.pendingDecorations;
+    this.pendingDecorations = [];
+
+    const open = this.consume(TokenType.LBRACE, 'Expected {');
 
     const bodyNodes: (AST.MethodDefinition | AST.PropertyDefinition)[] = [];
 
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      // Collect decorations for class members
-      while (this.match(TokenType.DECORATION)) {
-        const decoration = JSON.parse(this.previous().value) as Decoration;
-        this.pendingDecorations.push(decoration);
-      }
+      // Take the member's decorations before its parameters or value collect theirs
+      this.collectDecorations();
+      const memberDecorations = this.pendingDecorations;
+      this.pendingDecorations = [];
 
       // Allow any token with a value as property name (including keywords)
       const keyToken = this.peek();
       if (this.isAtEnd() || keyToken.type === TokenType.RBRACE) {
-        throw new Error(`Expected member name at line ${keyToken.line}, column ${keyToken.column}`);
+        throw this.error(DiagnosticCode.ExpectedName, `Expected member name, found ${this.describe(keyToken)}`, keyToken);
+      }
+      const isAsync = keyToken.type === TokenType.ASYNC && this.checkNext(TokenType.IDENTIFIER);
+      if (isAsync) {
+        this.advance();
       }
       const key = this.advance();
+      const optional = this.match(TokenType.QUESTION);
+      const typeParameters = this.match(TokenType.LESS_THAN) ? this.typeParameters() : undefined;
 
       if (this.match(TokenType.LPAREN)) {
         // Method
+        const paramsStart = this.previous();
         const params = this.parameters();
         this.consume(TokenType.RPAREN, 'Expected )');
 
@@ -173,21 +279,20 @@ export class Parser {
         this.consume(TokenType.LBRACE, 'Expected {');
         const body = this.blockStatement();
 
-        const decorations = this.pendingDecorations;
-        this.pendingDecorations = [];
-
-        bodyNodes.push({
+        bodyNodes.push(this.finishNode({
           type: 'MethodDefinition',
-          key: { type: 'Identifier', name: key.value },
-          value: {
+          key: this.identifier(key),
+          value: this.finishNode({
             type: 'FunctionExpression',
             params,
             body,
             returnType,
-            decorations: decorations.length > 0 ? decorations : undefined,
-          },
+            isAsync: isAsync || undefined,
+            typeParameters,
+            decorations: memberDecorations.length > 0 ? memberDecorations : undefined,
+          }, paramsStart),
           kind: key.value === 'constructor' ? 'constructor' : 'method',
-        });
+        }, keyToken));
       } else {
         // Property
         let typeAnnotation: AST.TypeAnnotation | undefined;
@@ -202,46 +307,44 @@ export class Parser {
 
         this.match(TokenType.SEMICOLON);
 
-        const decorations = this.pendingDecorations;
-        this.pendingDecorations = [];
-
-        bodyNodes.push({
+        bodyNodes.push(this.finishNode({
           type: 'PropertyDefinition',
-          key: { type: 'Identifier', name: key.value },
+          key: this.identifier(key),
           value,
           typeAnnotation,
-          decorations: decorations.length > 0 ? decorations : undefined,
-        });
+          optional: optional || undefined,
+          decorations: memberDecorations.length > 0 ? memberDecorations : undefined,
+        }, keyToken));
       }
     }
 
     this.consume(TokenType.RBRACE, 'Expected }');
 
-    const decorations = this.pendingDecorations;
-    this.pendingDecorations = [];
-
-    return {
+    return this.finishNode({
       type: 'ClassDeclaration',
-      id: { type: 'Identifier', name: id.value },
-      body: {
+      id: this.identifier(id),
+      body: this.finishNode({
         type: 'ClassBody',
         body: bodyNodes,
-      },
+      }, open),
+      typeParameters,
       decorations: decorations.length > 0 ? decorations : undefined,
-    };
+    }, start);
   }
 
   private interfaceDeclaration(): AST.InterfaceDeclaration {
+    const start = this.previous();
     const id = this.consume(TokenType.IDENTIFIER, 'Expected interface name');
+    const typeParameters = this.match(TokenType.LESS_THAN) ? this.typeParameters() : undefined;
 
-    this.consume(TokenType.LBRACE, 'Expected {');
+    const open = this.consume(TokenType.LBRACE, 'Expected {');
 
     const body: AST.PropertySignature[] = [];
 
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
       // Allow keywords as property names
       if (this.isAtEnd()) {
-        throw new Error(`Expected property name at line ${this.peek().line}, column ${this.peek().column}`);
+        throw this.error(DiagnosticCode.ExpectedName, 'Expected property name, found end of file', this.peek());
       }
       const key = this.advance();
       const optional = this.match(TokenType.QUESTION);
@@ -251,43 +354,89 @@ export class Parser {
 
       this.match(TokenType.SEMICOLON);
 
-      body.push({
+      body.push(this.finishNode({
         type: 'PropertySignature',
-        key: { type: 'Identifier', name: key.value },
+        key: this.identifier(key),
         typeAnnotation,
         optional,
-      });
+      }, key));
     }
 
     this.consume(TokenType.RBRACE, 'Expected }');
 
-    return {
+    return this.finishNode({
       type: 'InterfaceDeclaration',
-      id: { type: 'Identifier', name: id.value },
-      body: {
+      id: this.identifier(id),
+      body: this.finishNode({
         type: 'InterfaceBody',
         body,
-      },
-    };
+      }, open),
+      typeParameters,
+    }, start);
   }
 
   private typeAliasDeclaration(): AST.TypeAliasDeclaration {
+    const start = this.previous();
     const id = this.consume(TokenType.IDENTIFIER, 'Expected type name');
+    const typeParameters = this.match(TokenType.LESS_THAN) ? this.typeParameters() : undefined;
 
     this.consume(TokenType.EQUALS, 'Expected =');
     const typeAnnotation = this.typeAnnotation();
 
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'TypeAliasDeclaration',
-      id: { type: 'Identifier', name: id.value },
+      id: this.identifier(id),
       typeAnnotation,
-    };
+      typeParameters,
+    }, start);
+  }
+
+  private enumDeclaration(isConst: boolean, start: Token = this.previous()): AST.EnumDeclaration {
+    const id = this.consume(TokenType.IDENTIFIER, 'Expected enum name');
+
+    const decorations = this.pendingDecorations;
+    this.pendingDecorations = [];
+
+    this.consume(TokenType.LBRACE, 'Expected {');
+
+    const members: AST.EnumMember[] = [];
+
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      // Members may be named with identifiers, keywords or string literals
+      const name = this.advance();
+
+      let initializer: AST.Expression | undefined;
+      if (this.match(TokenType.EQUALS)) {
+        initializer = this.expression();
+      }
+
+      members.push(this.finishNode({
+        type: 'EnumMember',
+        id: this.identifier(name),
+        initializer,
+      }, name));
+
+      if (!this.check(TokenType.RBRACE)) {
+        this.consume(TokenType.COMMA, 'Expected ,');
+      }
+    }
+
+    this.consume(TokenType.RBRACE, 'Expected }');
+
+    return this.finishNode({
+      type: 'EnumDeclaration',
+      id: this.identifier(id),
+      members,
+      isConst: isConst || undefined,
+      decorations: decorations.length > 0 ? decorations : undefined,
+    }, start);
   }
 
   private variableDeclaration(): AST.VariableDeclaration {
-    const kind = this.previous().value as 'let' | 'const' | 'var';
+    const start = this.previous();
+    const kind = start.value as 'let' | 'const' | 'var';
     const declarations: AST.VariableDeclarator[] = [];
 
     do {
@@ -306,28 +455,25 @@ export class Parser {
       const decorations = this.pendingDecorations;
       this.pendingDecorations = [];
 
-      declarations.push({
+      declarations.push(this.finishNode({
         type: 'VariableDeclarator',
-        id: {
-          type: 'Identifier',
-          name: id.value,
-          decorations: decorations.length > 0 ? decorations : undefined,
-        },
+        id: this.identifier(id, decorations),
         init,
         typeAnnotation,
-      });
+      }, id));
     } while (this.match(TokenType.COMMA));
 
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'VariableDeclaration',
       kind,
       declarations,
-    };
+    }, start);
   }
 
   private ifStatement(): AST.IfStatement {
+    const start = this.previous();
     this.consume(TokenType.LPAREN, 'Expected (');
     const test = this.expression();
     this.consume(TokenType.RPAREN, 'Expected )');
@@ -339,34 +485,87 @@ export class Parser {
       alternate = this.statement()!;
     }
 
-    return {
+    return this.finishNode({
       type: 'IfStatement',
       test,
       consequent,
       alternate,
-    };
+    }, start);
+  }
+
+  private switchStatement(): AST.SwitchStatement {
+    const start = this.previous();
+    this.consume(TokenType.LPAREN, 'Expected (');
+    const discriminant = this.expression();
+    this.consume(TokenType.RPAREN, 'Expected )');
+    this.consume(TokenType.LBRACE, 'Expected {');
+
+    const cases: AST.SwitchCase[] = [];
+
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const caseStart = this.peek();
+      let test: AST.Expression | undefined;
+      if (this.match(TokenType.CASE)) {
+        test = this.expression();
+      } else {
+        this.consume(TokenType.DEFAULT, 'Expected case or default');
+      }
+      this.consume(TokenType.COLON, 'Expected :');
+
+      const consequent: AST.Statement[] = [];
+      while (!this.check(TokenType.CASE) && !this.check(TokenType.DEFAULT) &&
+             !this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+        const stmt = this.statement();
+        if (stmt) {
+          consequent.push(stmt);
+        }
+      }
+
+      cases.push(this.finishNode({
+        type: 'SwitchCase',
+        test,
+        consequent,
+      }, caseStart));
+    }
+
+    this.consume(TokenType.RBRACE, 'Expected }');
+
+    return this.finishNode({
+      type: 'SwitchStatement',
+      discriminant,
+      cases,
+    }, start);
   }
 
   private whileStatement(): AST.WhileStatement {
+    const start = this.previous();
     this.consume(TokenType.LPAREN, 'Expected (');
     const test = this.expression();
     this.consume(TokenType.RPAREN, 'Expected )');
 
     const body = this.statement()!;
 
-    return {
+    return this.finishNode({
       type: 'WhileStatement',
       test,
       body,
-    };
+    }, start);
   }
 
-  private forStatement(): AST.ForStatement {
+  private forStatement(): AST.ForStatement | AST.ForOfStatement | AST.ForInStatement {
+    const start = this.previous();
     this.consume(TokenType.LPAREN, 'Expected (');
 
+    // Collect decorations for the loop variable
+    this.collectDecorations();
+
     let init: AST.VariableDeclaration | AST.Expression | undefined;
     if (!this.check(TokenType.SEMICOLON)) {
       if (this.match(TokenType.LET, TokenType.CONST, TokenType.VAR)) {
+        const iteration = this.forIterationStatement(start);
+        if (iteration) {
+          return iteration;
+        }
         init = this.variableDeclaration();
       } else {
         init = this.expression();
@@ -390,16 +589,71 @@ export class Parser {
 
     const body = this.statement()!;
 
-    return {
+    return this.finishNode({
       type: 'ForStatement',
       init,
       test,
       update,
       body,
-    };
+    }, start);
+  }
+
+  /**
+   * Parses the rest of a `for (const x of items)` or `for (const k in obj)` head.
+   * Returns null, with no tokens consumed, when the head is a three-clause for.
+   */
+  private forIterationStatement(start: Token): AST.ForOfStatement | AST.ForInStatement | null {
+    const kind = this.previous().value as 'let' | 'const' | 'var';
+    const checkpoint = this.current;
+    const pendingCount = this.pendingDecorations.length;
+
+    this.collectDecorations();
+
+    let left: AST.Identifier | AST.ArrayPattern | undefined;
+    if (this.match(TokenType.IDENTIFIER)) {
+      left = this.identifier(this.previous());
+    } else if (this.match(TokenType.LBRACKET)) {
+      const open = this.previous();
+      const elements: AST.Identifier[] = [];
+      while (this.match(TokenType.IDENTIFIER)) {
+        elements.push(this.identifier(this.previous()));
+        if (!this.match(TokenType.COMMA)) break;
+      }
+      if (this.match(TokenType.RBRACKET)) {
+        left = this.finishNode<AST.ArrayPattern>({ type: 'ArrayPattern', elements }, open);
+      }
+    }
+
+    const keyword = this.peek();
+    if (!left || keyword.type !== TokenType.IDENTIFIER || (keyword.value !== 'of' && keyword.value !== 'in')) {
+      this.current = checkpoint;
+      this.pendingDecorations.length = pendingCount;
+      return null;
+    }
+    this.advance();
+
+    const decorations = this.pendingDecorations;
+    this.pendingDecorations = [];
+    if (decorations.length > 0) {
+      left.decorations = decorations;
+    }
+
+    const right = this.expression();
+    this.consume(TokenType.RPAREN, 'Expected )');
+
+    const body = this.statement()!;
+
+    return this.finishNode<AST.ForOfStatement | AST.ForInStatement>({
+      type: keyword.value === 'of' ? 'ForOfStatement' : 'ForInStatement',
+      kind,
+      left,
+      right,
+      body,
+    }, start);
   }
 
   private returnStatement(): AST.ReturnStatement {
+    const start = this.previous();
     let argument: AST.Expression | undefined;
 
     if (!this.check(TokenType.SEMICOLON) && !this.isAtEnd()) {
@@ -408,52 +662,77 @@ export class Parser {
 
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'ReturnStatement',
       argument,
-    };
+    }, start);
+  }
+
+  private breakStatement(): AST.BreakStatement {
+    const start = this.previous();
+    this.match(TokenType.SEMICOLON);
+
+    return this.finishNode({ type: 'BreakStatement' }, start);
+  }
+
+  private continueStatement(): AST.ContinueStatement {
+    const start = this.previous();
+    this.match(TokenType.SEMICOLON);
+
+    return this.finishNode({ type: 'ContinueStatement' }, start);
   }
 
   private blockStatement(): AST.BlockStatement {
+    const open = this.previous();
     const body: AST.Statement[] = [];
 
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      const stmt = this.statement();
+      const stmt = this.recoverableStatement(false);
       if (stmt) {
         body.push(stmt);
       }
     }
 
+    if (this.isAtEnd() && open?.type === TokenType.LBRACE) {
+      const error = this.error(DiagnosticCode.UnexpectedToken, 'Expected }, found end of file', this.peek(), {
+        message: 'insert `}`',
+        replacement: '}',
+      });
+      error.diagnostic.related = [{ message: 'unclosed `{` opened here', span: this.spanOf(open) }];
+      throw error;
+    }
     this.consume(TokenType.RBRACE, 'Expected }');
 
-    return {
+    return this.finishNode({
       type: 'BlockStatement',
       body,
-    };
+    }, open);
   }
 
   private tryStatement(): AST.TryStatement {
+    const start = this.previous();
     this.consume(TokenType.LBRACE, 'Expected {');
     const block = this.blockStatement();
 
     let handler: AST.CatchClause | undefined;
     if (this.match(TokenType.CATCH)) {
+      const catchStart = this.previous();
       let param: AST.Identifier | undefined;
 
       if (this.match(TokenType.LPAREN)) {
         const paramToken = this.consume(TokenType.IDENTIFIER, 'Expected parameter');
-        param = { type: 'Identifier', name: paramToken.value };
+        param = this.identifier(paramToken);
         this.consume(TokenType.RPAREN, 'Expected )');
       }
 
       this.consume(TokenType.LBRACE, 'Expected {');
       const body = this.blockStatement();
 
-      handler = {
+      handler = this.finishNode<AST.CatchClause>({
         type: 'CatchClause',
         param,
         body,
-      };
+      }, catchStart);
     }
 
     let finalizer: AST.BlockStatement | undefined;
@@ -462,32 +741,34 @@ export class Parser {
       finalizer = this.blockStatement();
     }
 
-    return {
+    return this.finishNode({
       type: 'TryStatement',
       block,
       handler,
       finalizer,
-    };
+    }, start);
   }
 
   private throwStatement(): AST.ThrowStatement {
+    const start = this.previous();
     const argument = this.expression();
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'ThrowStatement',
       argument,
-    };
+    }, start);
   }
 
   private expressionStatement(): AST.ExpressionStatement {
+    const start = this.peek();
     const expression = this.expression();
     this.match(TokenType.SEMICOLON);
 
-    return {
+    return this.finishNode({
       type: 'ExpressionStatement',
       expression,
-    };
+    }, start);
   }
 
   private expression(): AST.Expression {
@@ -495,145 +776,172 @@ export class Parser {
   }
 
   private assignment(): AST.Expression {
+    const start = this.peek();
     let expr = this.ternary();
 
     if (this.match(TokenType.EQUALS, TokenType.PLUS_EQUALS, TokenType.MINUS_EQUALS)) {
       const operator = this.previous().value;
       const right = this.assignment();
 
-      expr = {
+      expr = this.finishNode({
         type: 'AssignmentExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private ternary(): AST.Expression {
-    let expr = this.logicalOr();
+    const start = this.peek();
+    let expr = this.nullishCoalescing();
 
     if (this.match(TokenType.QUESTION)) {
       const consequent = this.expression();
       this.consume(TokenType.COLON, 'Expected :');
       const alternate = this.expression();
 
-      expr = {
+      expr = this.finishNode({
         type: 'ConditionalExpression',
         test: expr,
         consequent,
         alternate,
-      };
+      }, start);
+    }
+
+    return expr;
+  }
+
+  private nullishCoalescing(): AST.Expression {
+    const start = this.peek();
+    let expr = this.logicalOr();
+
+    while (this.match(TokenType.NULLISH)) {
+      const operator = this.previous().value;
+      const right = this.logicalOr();
+
+      expr = this.finishNode({
+        type: 'BinaryExpression',
+        left: expr,
+        operator,
+        right,
+      }, start);
     }
 
     return expr;
   }
 
   private logicalOr(): AST.Expression {
+    const start = this.peek();
     let expr = this.logicalAnd();
 
     while (this.match(TokenType.LOGICAL_OR)) {
       const operator = this.previous().value;
       const right = this.logicalAnd();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private logicalAnd(): AST.Expression {
+    const start = this.peek();
     let expr = this.equality();
 
     while (this.match(TokenType.LOGICAL_AND)) {
       const operator = this.previous().value;
       const right = this.equality();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private equality(): AST.Expression {
+    const start = this.peek();
     let expr = this.comparison();
 
     while (this.match(TokenType.DOUBLE_EQUALS, TokenType.TRIPLE_EQUALS, TokenType.NOT_EQUALS, TokenType.STRICT_NOT_EQUALS)) {
       const operator = this.previous().value;
       const right = this.comparison();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private comparison(): AST.Expression {
+    const start = this.peek();
     let expr = this.additive();
 
     while (this.match(TokenType.LESS_THAN, TokenType.GREATER_THAN, TokenType.LESS_THAN_EQUALS, TokenType.GREATER_THAN_EQUALS)) {
       const operator = this.previous().value;
       const right = this.additive();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private additive(): AST.Expression {
+    const start = this.peek();
     let expr = this.multiplicative();
 
     while (this.match(TokenType.PLUS, TokenType.MINUS)) {
       const operator = this.previous().value;
       const right = this.multiplicative();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
   }
 
   private multiplicative(): AST.Expression {
+    const start = this.peek();
     let expr = this.unary();
 
     while (this.match(TokenType.STAR, TokenType.SLASH, TokenType.PERCENT)) {
       const operator = this.previous().value;
       const right = this.unary();
 
-      expr = {
+      expr = this.finishNode({
         type: 'BinaryExpression',
         left: expr,
         operator,
         right,
-      };
+      }, start);
     }
 
     return expr;
@@ -641,33 +949,50 @@ export class Parser {
 
   private unary(): AST.Expression {
     if (this.match(TokenType.LOGICAL_NOT, TokenType.MINUS, TokenType.PLUS)) {
-      const operator = this.previous().value;
+      const start = this.previous();
       const argument = this.unary();
 
-      return {
+      return this.finishNode({
         type: 'UnaryExpression',
-        operator,
+        operator: start.value,
         argument,
         prefix: true,
-      };
+      }, start);
+    }
+
+    if (this.match(TokenType.INCREMENT, TokenType.DECREMENT)) {
+      const start = this.previous();
+      const argument = this.unary();
+
+      return this.finishNode({
+        type: 'UnaryExpression',
+        operator: start.value,
+        argument,
+        prefix: true,
+      }, start);
     }
 
     if (this.match(TokenType.AWAIT)) {
+      const start = this.previous();
       const argument = this.unary();
-      return {
+      return this.finishNode({
         type: 'AwaitExpression',
         argument,
-      };
+      }, start);
     }
 
     return this.postfix();
   }
 
   private postfix(): AST.Expression {
+    const start = this.peek();
     let expr = this.primary();
 
     while (true) {
-      if (this.match(TokenType.LPAREN)) {
+      // `f<T>(x)` is a call with type arguments only when the list is followed by the arguments
+      const typeArguments = this.speculativeTypeArguments(true);
+      if (typeArguments || this.match(TokenType.LPAREN)) {
+        if (typeArguments) this.consume(TokenType.LPAREN, 'Expected (');
         const args: AST.Expression[] = [];
 
         if (!this.check(TokenType.RPAREN)) {
@@ -678,34 +1003,48 @@ export class Parser {
 
         this.consume(TokenType.RPAREN, 'Expected )');
 
-        expr = {
+        expr = this.finishNode({
           type: 'CallExpression',
           callee: expr,
+          typeArguments,
           arguments: args,
-        };
+        }, start);
+      } else if (this.match(TokenType.LOGICAL_NOT)) {
+        // Non-null assertion, e.g. map.get(key)!
+        expr = this.finishNode({
+          type: 'TSNonNullExpression',
+          expression: expr,
+        }, start);
       } else if (this.match(TokenType.DOT)) {
         // Allow keywords as property names
         if (this.isAtEnd()) {
-          throw new Error(`Expected property name at line ${this.peek().line}, column ${this.peek().column}`);
+          throw this.error(DiagnosticCode.ExpectedName, 'Expected property name, found end of file', this.peek());
         }
         const property = this.advance();
 
-        expr = {
+        expr = this.finishNode({
           type: 'MemberExpression',
           object: expr,
-          property: { type: 'Identifier', name: property.value },
+          property: this.identifier(property),
           computed: false,
-        };
+        }, start);
       } else if (this.match(TokenType.LBRACKET)) {
         const property = this.expression();
         this.consume(TokenType.RBRACKET, 'Expected ]');
 
-        expr = {
+        expr = this.finishNode({
           type: 'MemberExpression',
           object: expr,
           property,
           computed: true,
-        };
+        }, start);
+      } else if (this.match(TokenType.INCREMENT, TokenType.DECREMENT)) {
+        expr = this.finishNode({
+          type: 'UnaryExpression',
+          operator: this.previous().value,
+          argument: expr,
+          prefix: false,
+        }, start);
       } else {
         break;
       }
@@ -716,57 +1055,63 @@ export class Parser {
 
   private primary(): AST.Expression {
     if (this.match(TokenType.NUMBER)) {
-      return {
+      return this.finishNode({
         type: 'NumberLiteral',
         value: parseFloat(this.previous().value),
-      };
+      }, this.previous());
     }
 
     if (this.match(TokenType.STRING)) {
-      return {
+      return this.finishNode({
         type: 'StringLiteral',
         value: this.previous().value,
-      };
+      }, this.previous());
     }
 
     if (this.match(TokenType.BOOLEAN)) {
-      return {
+      return this.finishNode({
         type: 'BooleanLiteral',
         value: this.previous().value === 'true',
-      };
+      }, this.previous());
     }
 
     if (this.match(TokenType.NULL)) {
-      return {
+      return this.finishNode({
         type: 'NullLiteral',
         value: null,
-      };
+      }, this.previous());
+    }
+
+    if (this.match(TokenType.UNDEFINED)) {
+      return this.identifier(this.previous());
     }
 
     if (this.match(TokenType.THIS)) {
-      return {
-        type: 'ThisExpression',
-      };
+      return this.finishNode({ type: 'ThisExpression' }, this.previous());
     }
 
     if (this.match(TokenType.NEW)) {
+      const start = this.previous();
+      const calleeStart = this.peek();
       // Parse the constructor (could be an identifier or member expression)
       let callee: AST.Expression = this.primary();
 
       // Handle member expressions like new obj.Constructor()
       while (this.match(TokenType.DOT)) {
         if (this.isAtEnd()) {
-          throw new Error(`Expected property name at line ${this.peek().line}, column ${this.peek().column}`);
+          throw this.error(DiagnosticCode.ExpectedName, 'Expected property name, found end of file', this.peek());
         }
         const property = this.advance();
-        callee = {
+        callee = this.finishNode({
           type: 'MemberExpression',
           object: callee,
-          property: { type: 'Identifier', name: property.value },
+          property: this.identifier(property),
           computed: false,
-        };
+        }, calleeStart);
       }
 
+      const typeArguments = this.speculativeTypeArguments(false);
+
       // Parse constructor arguments
       const args: AST.Expression[] = [];
       if (this.match(TokenType.LPAREN)) {
@@ -778,18 +1123,16 @@ export class Parser {
         this.consume(TokenType.RPAREN, 'Expected )');
       }
 
-      return {
+      return this.finishNode({
         type: 'NewExpression',
         callee,
+        typeArguments,
         arguments: args,
-      };
+      }, start);
     }
 
     if (this.match(TokenType.IDENTIFIER)) {
-      return {
-        type: 'Identifier',
-        name: this.previous().value,
-      };
+      return this.identifier(this.previous());
     }
 
     // Allow some keywords to be used as identifiers
@@ -802,17 +1145,14 @@ export class Parser {
       // Check if it's a keyword that can be used as identifier
       if (current.type === TokenType.TYPE || current.type === TokenType.AS ||
           current.type === TokenType.FROM) {
-        this.advance();
-        return {
-          type: 'Identifier',
-          name: this.previous().value,
-        };
+        return this.identifier(this.advance());
       }
     }
 
     if (this.match(TokenType.LPAREN)) {
       // Could be arrow function or grouped expression
       // First check if this looks like it could be arrow function parameters
+      const start = this.previous();
       const checkpoint = this.current;
       let isArrowFunction = false;
 
@@ -836,11 +1176,11 @@ export class Parser {
               typeAnnotation = this.typeAnnotation();
             }
 
-            params.push({
+            params.push(this.finishNode({
               type: 'Parameter',
-              id: { type: 'Identifier', name: paramToken.value },
+              id: this.identifier(paramToken),
               typeAnnotation,
-            });
+            }, paramToken));
           } while (this.match(TokenType.COMMA));
         }
 
@@ -863,12 +1203,12 @@ export class Parser {
             body = this.expression();
           }
 
-          return {
+          return this.finishNode({
             type: 'ArrowFunctionExpression',
             params,
             body,
             returnType,
-          };
+          }, start);
         }
       } catch (e) {
         // Not an arrow function
@@ -884,6 +1224,7 @@ export class Parser {
     }
 
     if (this.match(TokenType.LBRACKET)) {
+      const start = this.previous();
       const elements: AST.Expression[] = [];
 
       if (!this.check(TokenType.RBRACKET)) {
@@ -894,13 +1235,14 @@ export class Parser {
 
       this.consume(TokenType.RBRACKET, 'Expected ]');
 
-      return {
+      return this.finishNode({
         type: 'ArrayExpression',
         elements,
-      };
+      }, start);
     }
 
     if (this.match(TokenType.LBRACE)) {
+      const start = this.previous();
       const properties: AST.Property[] = [];
 
       while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
@@ -908,19 +1250,19 @@ export class Parser {
 
         if (this.match(TokenType.COLON)) {
           const value = this.expression();
-          properties.push({
+          properties.push(this.finishNode({
             type: 'Property',
-            key: { type: 'Identifier', name: key.value },
+            key: this.identifier(key),
             value,
-          });
+          }, key));
         } else {
           // Shorthand
-          properties.push({
+          properties.push(this.finishNode({
             type: 'Property',
-            key: { type: 'Identifier', name: key.value },
-            value: { type: 'Identifier', name: key.value },
+            key: this.identifier(key),
+            value: this.identifier(key),
             shorthand: true,
-          });
+          }, key));
         }
 
         if (!this.check(TokenType.RBRACE)) {
@@ -930,13 +1272,13 @@ export class Parser {
 
       this.consume(TokenType.RBRACE, 'Expected }');
 
-      return {
+      return this.finishNode({
         type: 'ObjectExpression',
         properties,
-      };
+      }, start);
     }
 
-    throw new Error(`Unexpected token: ${this.peek().type} at line ${this.peek().line}`);
+    throw this.error(DiagnosticCode.ExpectedExpression, `Expected expression, found ${this.describe(this.peek())}`, this.peek());
   }
 
   private parameters(): AST.Parameter[] {
@@ -945,16 +1287,14 @@ export class Parser {
     if (!this.check(TokenType.RPAREN)) {
       do {
         // Collect decorations for parameters
-        while (this.match(TokenType.DECORATION)) {
-          const decoration = JSON.parse(this.previous().value) as Decoration;
-          this.pendingDecorations.push(decoration);
-        }
+        this.collectDecorations();
 
         // Allow keywords as parameter names
         if (this.isAtEnd()) {
-          throw new Error(`Expected parameter at line ${this.peek().line}, column ${this.peek().column}`);
+          throw this.error(DiagnosticCode.ExpectedName, 'Expected parameter, found end of file', this.peek());
         }
         const paramToken = this.advance();
+        const optional = this.match(TokenType.QUESTION);
 
         let typeAnnotation: AST.TypeAnnotation | undefined;
         if (this.match(TokenType.COLON)) {
@@ -969,16 +1309,13 @@ export class Parser {
         const decorations = this.pendingDecorations;
         this.pendingDecorations = [];
 
-        params.push({
+        params.push(this.finishNode({
           type: 'Parameter',
-          id: {
-            type: 'Identifier',
-            name: paramToken.value,
-            decorations: decorations.length > 0 ? decorations : undefined,
-          },
+          id: this.identifier(paramToken, decorations),
           typeAnnotation,
           defaultValue,
-        });
+          optional: optional || undefined,
+        }, paramToken));
       } while (this.match(TokenType.COMMA));
     }
 
@@ -986,15 +1323,20 @@ export class Parser {
   }
 
   private typeAnnotation(): AST.TypeAnnotation {
+    const start = this.peek();
     const tsType = this.tsType();
 
-    return {
+    return this.finishNode({
       type: 'TypeAnnotation',
       typeAnnotation: tsType,
-    };
+    }, start);
   }
 
   private tsType(): AST.TSType {
+    const start = this.peek();
+    // Allow a leading | before the first union member
+    this.match(TokenType.BITWISE_OR);
+
     let type = this.tsPrimaryType();
 
     // Union types
@@ -1004,49 +1346,172 @@ export class Parser {
         types.push(this.tsPrimaryType());
       } while (this.match(TokenType.BITWISE_OR));
 
-      return {
+      return this.finishNode({
         type: 'TSUnionType',
         types,
-      };
+      }, start);
     }
 
     return type;
   }
 
+  private typeParameters(): AST.TSTypeParameter[] {
+    const params: AST.TSTypeParameter[] = [];
+
+    do {
+      const name = this.consume(TokenType.IDENTIFIER, 'Expected type parameter name');
+
+      let constraint: AST.TSType | undefined;
+      if (this.check(TokenType.IDENTIFIER) && this.peek().value === 'extends') {
+        this.advance();
+        constraint = this.tsType();
+      }
+
+      let defaultType: AST.TSType | undefined;
+      if (this.match(TokenType.EQUALS)) {
+        defaultType = this.tsType();
+      }
+
+      params.push(this.finishNode({
+        type: 'TSTypeParameter',
+        name: this.identifier(name),
+        constraint,
+        default: defaultType,
+      }, name));
+    } while (this.match(TokenType.COMMA));
+
+    this.consume(TokenType.GREATER_THAN, 'Expected >');
+    return params;
+  }
+
+  private typeArguments(): AST.TSType[] {
+    const args: AST.TSType[] = [];
+
+    do {
+      args.push(this.tsType());
+    } while (this.match(TokenType.COMMA));
+
+    this.consume(TokenType.GREATER_THAN, 'Expected >');
+    return args;
+  }
+
+  /**
+   * Reads `<...>` after a callee as type arguments when it parses as a type list, and for a call only
+   * when `(` follows; otherwise rewinds so `<` is read as a comparison
+   */
+  private speculativeTypeArguments(call: boolean): AST.TSType[] | undefined {
+    if (!this.check(TokenType.LESS_THAN)) return undefined;
+
+    const checkpoint = this.current;
+    this.advance();
+    try {
+      const args = this.typeArguments();
+      if (!call || this.check(TokenType.LPAREN)) return args;
+    } catch (e) {
+      // A comparison rather than type arguments
+    }
+    this.current = checkpoint;
+    return undefined;
+  }
+
   private tsPrimaryType(): AST.TSType {
     const current = this.peek();
 
     if (this.match(TokenType.IDENTIFIER)) {
-      const name = this.previous().value;
+      const name = current.value;
+      const typeArguments = this.match(TokenType.LESS_THAN) ? this.typeArguments() : undefined;
+      const reference = this.finishNode<AST.TSTypeReference>({
+        type: 'TSTypeReference',
+        typeName: this.identifier(current),
+        typeArguments,
+      }, current);
 
       // Check for array type
       if (this.match(TokenType.LBRACKET)) {
         this.consume(TokenType.RBRACKET, 'Expected ]');
-        return {
+        return this.finishNode({
           type: 'TSArrayType',
-          elementType: {
-            type: 'TSTypeReference',
-            typeName: { type: 'Identifier', name },
-          },
-        };
+          elementType: reference,
+        }, current);
       }
 
       // Built-in types
       switch (name) {
-        case 'string': return { type: 'TSStringKeyword' };
-        case 'number': return { type: 'TSNumberKeyword' };
-        case 'boolean': return { type: 'TSBooleanKeyword' };
-        case 'void': return { type: 'TSVoidKeyword' };
-        case 'any': return { type: 'TSAnyKeyword' };
+        case 'string': return this.finishNode({ type: 'TSStringKeyword' }, current);
+        case 'number': return this.finishNode({ type: 'TSNumberKeyword' }, current);
+        case 'boolean': return this.finishNode({ type: 'TSBooleanKeyword' }, current);
+        case 'void': return this.finishNode({ type: 'TSVoidKeyword' }, current);
+        case 'any': return this.finishNode({ type: 'TSAnyKeyword' }, current);
         default:
-          return {
-            type: 'TSTypeReference',
-            typeName: { type: 'Identifier', name },
-          };
+          return reference;
       }
     }
 
-    throw new Error(`Expected type at line ${current.line}`);
+    if (this.match(TokenType.NULL)) {
+      return this.finishNode({ type: 'TSNullKeyword' }, current);
+    }
+
+    if (this.match(TokenType.UNDEFINED)) {
+      return this.finishNode({ type: 'TSUndefinedKeyword' }, current);
+    }
+
+    // Literal types, e.g. the tag of a discriminated union
+    if (this.match(TokenType.STRING)) {
+      return this.finishNode({
+        type: 'TSLiteralType',
+        literal: this.finishNode({ type: 'StringLiteral', value: current.value }, current),
+      }, current);
+    }
+
+    if (this.match(TokenType.NUMBER)) {
+      return this.finishNode({
+        type: 'TSLiteralType',
+        literal: this.finishNode({ type: 'NumberLiteral', value: parseFloat(current.value) }, current),
+      }, current);
+    }
+
+    if (this.match(TokenType.BOOLEAN)) {
+      return this.finishNode({
+        type: 'TSLiteralType',
+        literal: this.finishNode({ type: 'BooleanLiteral', value: current.value === 'true' }, current),
+      }, current);
+    }
+
+    throw this.error(DiagnosticCode.ExpectedType, `Expected type, found ${this.describe(current)}`, current);
+  }
+
+  /**
+   * Moves DECORATION tokens into pendingDecorations, keeping where each comment sits
+   */
+  private collectDecorations(): void {
+    while (this.match(TokenType.DECORATION)) {
+      const token = this.previous();
+      const decoration = JSON.parse(token.value) as Decoration;
+      this.pendingDecorations.push({ ...decoration, position: this.positionOf(token), end: token.end });
+    }
+  }
+
+  /**
+   * Gives a node the source range from `start` through the last consumed token
+   */
+  private finishNode<T extends AST.BaseNode>(node: T, start: Token): T {
+    node.position = this.positionOf(start);
+    node.end = this.previous().end;
+    return node;
+  }
+
+  private identifier(token: Token, decorations: Decoration[] = []): AST.Identifier {
+    return {
+      type: 'Identifier',
+      name: token.value,
+      position: this.positionOf(token),
+      end: token.end,
+      decorations: decorations.length > 0 ? decorations : undefined,
+    };
+  }
+
+  private positionOf(token: Token): AST.Position {
+    return { line: token.line, column: token.column, offset: token.offset };
   }
 
   private match(...types: TokenType[]): boolean {
@@ -1064,6 +1529,11 @@ export class Parser {
     return this.peek().type === type;
   }
 
+  private checkNext(type: TokenType): boolean {
+    const next = this.tokens[this.current + 1];
+    return next !== undefined && next.type === type;
+  }
+
   private advance(): Token {
     if (!this.isAtEnd()) this.current++;
     return this.previous();
@@ -1085,6 +1555,29 @@ export class Parser {
     if (this.check(type)) return this.advance();
 
     const token = this.peek();
-    throw new Error(`${message} at line ${token.line}, column ${token.column}. Got ${token.type}`);
+    const insertable = INSERTABLE_TOKENS[type];
+    const fix = insertable
+      ? { message: `insert \`${insertable}\``, replacement: insertable, span: { start: this.spanOf(token).start, end: this.spanOf(token).start } }
+      : undefined;
+    throw this.error(DiagnosticCode.UnexpectedToken, `${message}, found ${this.describe(token)}`, token, fix);
+  }
+
+  private error(code: DiagnosticCode, message: string, token: Token, fix?: DiagnosticFix): DiagnosticError {
+    return new DiagnosticError({ code, severity: 'error', message, span: this.spanOf(token), fix });
+  }
+
+  private spanOf(token: Token): Span {
+    if (token.type === TokenType.EOF) {
+      // Underline one column so the end of the file is still visible
+      const start = this.positionOf(token);
+      return { start, end: { ...start, column: start.column + 1, offset: start.offset + 1 } };
+    }
+    return { start: this.positionOf(token), end: token.end };
+  }
+
+  private describe(token: Token): string {
+    if (token.type === TokenType.EOF) return 'end of file';
+    if (token.type === TokenType.STRING) return `string "${token.value}"`;
+    return `\`${token.value}\``;
   }
 }
@@ -4,27 +4,197 @@
  */
 
 import * as AST from './ast.js';
+import { CompilerOptions } from './config.js';
+import { decorationTarget, NUMERIC_TYPES, validateDecoration } from './decorations.js';
+import { Diagnostic, DiagnosticCode } from './diagnostics.js';
+import { importedModulePath } from './module-graph.js';
+import { SourceMap, SourceMapBuilder } from './source-map.js';
+
+/**
+ * A C-style for loop that counts through a range, e.g. `for (let i = a; i < b; i++)`
+ */
+interface CountingLoop {
+  variable: string;
+  start: AST.Expression;
+  end: AST.Expression;
+  inclusive: boolean;
+  descending: boolean;
+  step?: AST.Expression;
+}
+
+/**
+ * A type alias that Rust can represent as an enum: either a discriminated union of
+ * interfaces sharing a literal `tag` property, or a union of string literals
+ */
+interface UnionEnum {
+  name: string;
+  tag?: string;
+  variants: UnionVariant[];
+}
+
+interface UnionVariant {
+  name: string;
+  tagValue: string;
+  fields: AST.PropertySignature[];
+}
+
+type NamedDeclaration =
+  | AST.FunctionDeclaration
+  | AST.ClassDeclaration
+  | AST.InterfaceDeclaration
+  | AST.TypeAliasDeclaration
+  | AST.EnumDeclaration;
+
+/**
+ * How one module of a multi-file project sees the rest of it
+ */
+export interface ModuleContext {
+  isEntry: boolean;
+  submodules: string[];  // Child modules to declare with `mod`
+  resolveImport(source: string): { path: string[]; program: AST.Program } | undefined;
+}
+
+/**
+ * Operators that keep integers integral; `/` and `**` are left out as they produce fractions in TypeScript
+ */
+const INTEGER_OPERATORS = ['+', '-', '*', '%', '&', '|', '^', '<<', '>>'];
+
+/**
+ * Operators whose result has the type of their operands
+ */
+const ARITHMETIC_OPERATORS = ['+', '-', '*', '/', '%'];
 
 export class RustCodeGenerator {
   private output: string = '';
   private indentLevel: number = 0;
   private scopeLevel: number = 0;  // Track scope depth for variable declarations
-
-  generate(program: AST.Program): string {
+  private loopUpdates: (AST.Expression | undefined)[] = [];  // Update clauses of enclosing loops, innermost last
+  private breakLabels: (string | undefined)[] = [];  // Label `break` leaves for each enclosing loop or switch case, undefined for loops
+  private scopes: Map<string, AST.TSType | undefined>[] = [];  // Declared types of visible bindings, innermost last
+  private classFields: Map<string, AST.TSType | undefined> = new Map();  // Field types of the class being generated
+  private enums: Map<string, AST.EnumDeclaration> = new Map();  // Enums declared anywhere in the program
+  private interfaces: Map<string, AST.InterfaceDeclaration> = new Map();
+  private typeAliases: Map<string, AST.TypeAliasDeclaration> = new Map();
+  private narrowed: Map<string, string[]> = new Map();  // Union-typed bindings destructured by the enclosing match arm
+  private references: Set<string> = new Set();  // Loop variables bound to `&mut` elements, which are dereferenced on use
+  private mutablyIterated: Set<string> = new Set();  // Collections a `mut` for...of loop variable iterates, which need `let mut`
+  private functions: Map<string, AST.FunctionDeclaration> = new Map();
+  private classes: Map<string, AST.ClassDeclaration> = new Map();
+  private returnTypes: (AST.TSType | undefined)[] = [];  // Declared return types of enclosing functions, innermost last
+  private tailReturns: Set<AST.ReturnStatement> = new Set();  // Returns that end a function body, written as its tail expression
+  private fallible: Map<string, string> = new Map();  // Functions and methods (`Class.method`) that can throw, with their error type
+  private errorTypes: (string | undefined)[] = [];  // Error type of each enclosing function, undefined when it cannot fail
+  private currentClass: string | undefined;
+  private constants: Map<string, string> = new Map();  // Top-level consts emitted as module items, by their Rust name
+  private inferredTypes: Map<AST.VariableDeclarator, AST.TSType> = new Map();  // Integer types picked for unannotated numbers
+  private names: Set<string> = new Set();  // Every identifier in the program, which generated bindings must not shadow
+  private module: ModuleContext | undefined;  // Set when generating one file of a project
+  private usesJson: boolean = false;  // JSON calls become serde_json, so data types derive serde's traits
+  private diagnostics: Diagnostic[] = [];
+  private sourceMap: SourceMapBuilder = new SourceMapBuilder();
+
+  constructor(private options: CompilerOptions = {}) {}
+
+  generate(program: AST.Program, module?: ModuleContext): string {
     this.output = '';
+    this.module = module;
     this.indentLevel = 0;
     this.scopeLevel = 0;
+    this.loopUpdates = [];
+    this.breakLabels = [];
+    this.scopes = [new Map()];
+    this.classFields = new Map();
+    this.enums = new Map();
+    this.interfaces = new Map();
+    this.typeAliases = new Map();
+    this.narrowed = new Map();
+    this.references = new Set();
+    this.mutablyIterated = new Set(this.collectMutablyIterated(program));
+    this.functions = new Map();
+    this.classes = new Map();
+    this.returnTypes = [];
+    this.tailReturns = new Set();
+    this.fallible = new Map();
+    this.errorTypes = [];
+    this.currentClass = undefined;
+    this.constants = new Map();
+    this.inferredTypes = new Map();
+    this.names = new Set(this.collectIdentifiers(program));
+    this.usesJson = false;
+    this.diagnostics = [];
+    this.sourceMap = new SourceMapBuilder();
+    this.checkDecorations(program);
+    this.collectDeclarations(program);
+    this.collectImports(program);
+    this.analyzeThrows();
+    this.inferNumericTypes(program);
+
+    const items: AST.Statement[] = [];
+    const executable: AST.Statement[] = [];
+    for (const statement of program.body) {
+      if (this.isModuleItem(statement)) {
+        items.push(statement);
+      } else {
+        executable.push(statement);
+      }
+    }
+
+    for (const name of module?.submodules ?? []) {
+      this.output += (module!.isEntry ? 'mod ' : 'pub mod ') + name + ';\n';
+    }
+    if (module?.submodules.length) {
+      this.output += '\n';
+    }
+
+    // Declarations become module items, so they keep their visibility and can be used as a library
+    for (const statement of items) {
+      const start = this.output.length;
+      this.generateStatement(statement);
+      if (this.output.length > start) this.output += '\n';
+    }
+
+    const isEntry = !module || module.isEntry;
+    if (executable.length === 0 || this.onlyCallsOwnMain(executable)) {
+      // A binary needs an entry point even when there is nothing to run
+      if (isEntry && this.options.target === 'bin' && !this.functions.has('main')) {
+        this.output += 'fn main() {}\n';
+      }
+      return this.output;
+    }
+
+    if (!isEntry || this.options.target === 'lib') {
+      // Only the root of a binary crate has an entry point to run them from
+      for (const statement of executable) {
+        this.report(DiagnosticCode.StatementInModule, 'warning',
+          isEntry ? 'A library has no entry point to run top-level statements; this one is left out'
+            : 'Top-level statements only run in the entry file; this one is left out',
+          statement, isEntry ? 'move it into a function' : 'move it into a function, or into the entry file');
+      }
+      return this.output;
+    }
+
+    const ownMain = this.functions.get('main');
+    if (ownMain) {
+      this.report(DiagnosticCode.ConflictingMain, 'error',
+        'Function `main` clashes with the generated entry point for the top-level statements', ownMain,
+        'rename the function, or make `main()` the only top-level statement');
+    }
 
-    // Wrap everything in main() for executable code
+    // Wrap the remaining statements in main() for executable code
     this.output += 'fn main() {\n';
     this.indentLevel++;
     this.scopeLevel++;
+    this.scopes.push(new Map());
 
-    for (const statement of program.body) {
+    for (const statement of executable) {
+      if (statement.type === 'ExportDeclaration') {
+        this.reportLossy(statement, 'Only constants with a compile-time value can be exported; this variable stays local to `main`',
+          'make it a const with a literal value, or export a function that returns it');
+      }
       this.generateStatement(statement);
-      this.output += '\n';
     }
 
+    this.scopes.pop();
     this.indentLevel--;
     this.scopeLevel--;
     this.output += '}\n';
@@ -32,7 +202,119 @@ export class RustCodeGenerator {
     return this.output;
   }
 
+  /**
+   * Problems found while generating, e.g. TypeScript that has no faithful Rust equivalent
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * The Rust type a declaration of the program last generated gets: the type of a variable, parameter or
+   * field, or the return type of a function or method, including the Result of one that can throw
+   */
+  rustTypeOf(node: AST.VariableDeclarator | AST.Parameter | AST.PropertyDefinition | AST.FunctionDeclaration | AST.MethodDefinition): string | undefined {
+    switch (node.type) {
+      case 'VariableDeclarator':
+        return this.renderType(this.decoratedType(node.id, node.typeAnnotation?.typeAnnotation)
+          ?? this.inferredTypes.get(node) ?? this.inferType(node.init));
+      case 'Parameter':
+        return this.renderType(this.slotType(node.typeAnnotation, node.optional, node.id));
+      case 'PropertyDefinition':
+        return this.renderType(this.slotType(node.typeAnnotation, node.optional, node) ?? this.inferType(node.value));
+      case 'FunctionDeclaration':
+      case 'MethodDefinition': {
+        const fn = node.type === 'FunctionDeclaration' ? node : node.value;
+        const owner = node.type === 'MethodDefinition'
+          ? [...this.classes].find(([, declaration]) => declaration.body.body.includes(node))?.[0]
+          : undefined;
+        const key = node.type === 'FunctionDeclaration' ? node.id.name : owner + '.' + node.key.name;
+        const returns = this.renderType(this.resolvedReturnType(fn)) ?? '()';
+        const error = this.fallible.get(key);
+        return error ? `Result<${returns}, ${error}>` : returns;
+      }
+    }
+  }
+
+  /**
+   * Writes a type on its own, leaving the generated code and diagnostics as they were
+   */
+  private renderType(type: AST.TSType | undefined): string | undefined {
+    if (!type) return undefined;
+
+    const output = this.output;
+    const diagnostics = this.diagnostics.length;
+    this.output = '';
+    this.generateTSType(type);
+    const rendered = this.output.trim();
+    this.output = output;
+    this.diagnostics.length = diagnostics;
+    return rendered;
+  }
+
+  /**
+   * Maps the code returned by the last generate() back to `source`
+   */
+  buildSourceMap(file: string, source: string, sourceName: string): SourceMap {
+    return this.sourceMap.build(this.output, file, source, sourceName);
+  }
+
+  private report(code: DiagnosticCode, severity: Diagnostic['severity'], message: string, node: AST.BaseNode, help?: string): void {
+    this.diagnostics.push({
+      code,
+      severity,
+      message,
+      span: node.position ? { start: node.position, end: node.end ?? node.position } : undefined,
+      fix: help ? { message: help } : undefined,
+    });
+  }
+
+  /**
+   * Warns where the output is a placeholder rather than a translation, once per source location
+   */
+  private reportLossy(node: AST.BaseNode, message: string, help: string): void {
+    const offset = node.position?.offset;
+    if (this.diagnostics.some(diagnostic => diagnostic.code === DiagnosticCode.LossyTranslation
+      && diagnostic.span?.start.offset === offset && diagnostic.message === message)) return;
+    this.report(DiagnosticCode.LossyTranslation, 'warning', message, node, help);
+  }
+
+  private isModuleItem(node: AST.Statement): boolean {
+    switch (node.type) {
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'InterfaceDeclaration':
+      case 'TypeAliasDeclaration':
+      case 'EnumDeclaration':
+      case 'ImportDeclaration':
+        return true;
+      case 'ExportDeclaration':
+        return this.isModuleItem(node.declaration);
+      case 'VariableDeclaration':
+        // Only consts with a compile-time value can become `const` items
+        return node.kind === 'const' &&
+          node.declarations.every(decl => decl.init && this.isConstantExpression(decl.init) && this.constantType(decl));
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * A program that defines its own `main` and only calls it needs no generated wrapper
+   */
+  private onlyCallsOwnMain(statements: AST.Statement[]): boolean {
+    if (!this.functions.has('main') || statements.length !== 1) return false;
+
+    const statement = statements[0];
+    if (statement.type !== 'ExpressionStatement') return false;
+
+    const call = statement.expression.type === 'AwaitExpression' ? statement.expression.argument : statement.expression;
+    return call.type === 'CallExpression' && this.isIdentifierNamed(call.callee, 'main');
+  }
+
   private generateStatement(node: AST.Statement): void {
+    this.sourceMap.mark(this.output.length, node.position);
+
     switch (node.type) {
       case 'VariableDeclaration':
         this.generateVariableDeclaration(node);
@@ -49,48 +331,95 @@ export class RustCodeGenerator {
       case 'TypeAliasDeclaration':
         this.generateTypeAliasDeclaration(node);
         break;
+      case 'EnumDeclaration':
+        this.generateEnumDeclaration(node);
+        break;
       case 'ExpressionStatement':
         this.writeIndent();
-        this.generateExpression(node.expression);
+        this.generateEffect(node.expression);
         this.output += ';\n';
         break;
-      case 'ReturnStatement':
+      case 'ReturnStatement': {
+        // Only the last value of a body can be left as its tail expression; earlier returns need the keyword
+        const error = this.errorTypes[this.errorTypes.length - 1];
+        const tail = this.tailReturns.has(node);
         this.writeIndent();
         if (node.argument) {
-          this.generateExpression(node.argument);
+          if (!tail) this.output += 'return ';
+          if (error) this.output += 'Ok(';
+          this.generateExpressionAs(node.argument, this.returnTypes[this.returnTypes.length - 1]);
+          if (error) this.output += ')';
         } else {
-          this.output += 'return';
+          this.output += error ? 'return Ok(())' : 'return';
         }
-        this.output += '\n';
+        this.output += tail ? '\n' : ';\n';
         break;
+      }
       case 'IfStatement':
         this.generateIfStatement(node);
         break;
+      case 'SwitchStatement':
+        this.generateSwitchStatement(node);
+        break;
       case 'WhileStatement':
         this.generateWhileStatement(node);
         break;
       case 'ForStatement':
         this.generateForStatement(node);
         break;
+      case 'ForOfStatement':
+        this.generateForOfStatement(node);
+        break;
+      case 'ForInStatement':
+        this.generateForInStatement(node);
+        break;
       case 'BlockStatement':
         this.generateBlockStatement(node);
         break;
       case 'ImportDeclaration':
         this.generateImportDeclaration(node);
         break;
-      case 'ExportDeclaration':
-        this.writeIndent();
-        this.output += 'pub ';
+      case 'ExportDeclaration': {
+        // Put pub on the item keyword itself, after any #[derive] attributes
+        const start = this.output.length;
         this.generateStatement(node.declaration);
+        const item = /^(\s*)(?=(?:async fn|fn|struct|enum|trait|type|const|static) )/m.exec(this.output.slice(start));
+        if (item) {
+          const at = start + item.index + item[1].length;
+          this.output = this.output.slice(0, at) + 'pub ' + this.output.slice(at);
+          this.sourceMap.insert(at, 'pub '.length);
+        }
         break;
+      }
       case 'TryStatement':
         this.generateTryStatement(node);
         break;
-      case 'ThrowStatement':
+      case 'ThrowStatement': {
+        const error = this.errorTypes[this.errorTypes.length - 1];
         this.writeIndent();
-        this.output += 'panic!(';
-        this.generateExpression(node.argument);
-        this.output += ');\n';
+        if (error) {
+          this.output += 'return Err(';
+          this.generateThrownValue(node.argument, error);
+          this.output += ');\n';
+        } else {
+          this.output += 'panic!(';
+          this.generateExpression(node.argument);
+          this.output += ');\n';
+        }
+        break;
+      }
+      case 'BreakStatement': {
+        const label = this.breakLabels[this.breakLabels.length - 1];
+        this.writeIndent();
+        this.output += label ? `break '${label};\n` : 'break;\n';
+        break;
+      }
+      case 'ContinueStatement':
+        this.generateContinueStatement();
+        break;
+      case 'ErrorNode':
+        this.writeIndent();
+        this.output += '/* syntax error: ' + node.message + ' */\n';
         break;
     }
   }
@@ -100,17 +429,29 @@ export class RustCodeGenerator {
       this.writeIndent();
 
       // Check for decoration hints
-      const isMutable = this.hasDecoration(decl.id, 'mut');
+      const isMutable = this.hasDecoration(decl.id, 'mut') || this.mutablyIterated.has(decl.id.name);
       const isImmutable = this.hasDecoration(decl.id, 'immutable');
 
       if (this.scopeLevel === 0) {
-        // Module-level declaration (when not wrapped in main)
+        // Module-level declaration (outside of main)
+        const name = this.toConstantName(decl.id.name);  // Constants are UPPERCASE
+        this.constants.set(decl.id.name, name);
         if (node.kind === 'const') {
           this.output += 'const ';
-          this.output += decl.id.name.toUpperCase();  // Constants are UPPERCASE
         } else {
           this.output += 'static mut ';  // Or use lazy_static for mutable statics
-          this.output += decl.id.name.toUpperCase();
+        }
+        this.output += name;
+
+        // Items always need a type, and a string constant can only be a &str
+        const type = this.constantType(decl) ?? this.decoratedType(decl.id, decl.typeAnnotation?.typeAnnotation);
+        if (type) {
+          this.output += ': ';
+          if (type.type === 'TSStringKeyword') {
+            this.output += '&str';
+          } else {
+            this.generateTSType(type);
+          }
         }
       } else {
         // Function-level declaration
@@ -125,24 +466,33 @@ export class RustCodeGenerator {
       }
 
       // Type annotation
-      if (decl.typeAnnotation) {
+      const declared = this.decoratedType(decl.id, decl.typeAnnotation?.typeAnnotation);
+      if (declared && this.scopeLevel > 0) {
         this.output += ': ';
-        this.generateRustType(decl.typeAnnotation);
+        this.generateTSType(declared);
       }
 
       // Initialization
+      const type = (this.scopeLevel === 0 ? this.constantType(decl) : undefined) ?? declared ?? this.inferredTypes.get(decl);
       if (decl.init) {
         this.output += ' = ';
-        this.generateExpression(decl.init);
+        this.generateExpressionAs(decl.init, type ?? this.inferType(decl.init));
       }
 
       this.output += ';\n';
+      this.declare(decl.id.name, type ?? (decl.init && this.typeOf(decl.init)));
     }
   }
 
   private generateFunctionDeclaration(node: AST.FunctionDeclaration): void {
     this.writeIndent();
 
+    // An async entry point needs a runtime
+    if (node.isAsync && node.id.name === 'main' && this.scopeLevel === 0) {
+      this.output += '#[tokio::main]\n';
+      this.writeIndent();
+    }
+
     // Add async if needed
     if (node.isAsync) {
       this.output += 'async ';
@@ -150,7 +500,12 @@ export class RustCodeGenerator {
 
     this.output += 'fn ';
     this.output += node.id.name;
+    this.generateTypeParameters(node.typeParameters, false);
     this.output += '(';
+    this.scopes.push(new Map());
+    const returnType = this.resolvedReturnType(node);
+    this.returnTypes.push(returnType);
+    this.errorTypes.push(this.fallible.get(node.id.name));
 
     // Parameters
     for (let i = 0; i < node.params.length; i++) {
@@ -159,15 +514,13 @@ export class RustCodeGenerator {
     }
 
     this.output += ')';
-
-    // Return type
-    if (node.returnType) {
-      this.output += ' -> ';
-      this.generateRustType(node.returnType);
-    }
+    this.generateReturnType(returnType);
 
     this.output += ' ';
-    this.generateBlockStatement(node.body, false);
+    this.generateFunctionBody(node.body, returnType);
+    this.errorTypes.pop();
+    this.returnTypes.pop();
+    this.scopes.pop();
     this.output += '\n';
   }
 
@@ -176,23 +529,31 @@ export class RustCodeGenerator {
 
     // In Rust, parameters are immutable by default
     // We can add mut if needed
-    if (!isImmutable && this.hasDecoration(node.id, 'mut')) {
+    if (!isImmutable && (this.hasDecoration(node.id, 'mut') || this.mutablyIterated.has(node.id.name))) {
       this.output += 'mut ';
     }
 
     this.output += node.id.name;
 
-    if (node.typeAnnotation) {
+    const type = this.slotType(node.typeAnnotation, node.optional, node.id);
+    if (type) {
       this.output += ': ';
-      this.generateRustType(node.typeAnnotation);
+      this.generateTSType(type);
     }
+
+    this.declare(node.id.name, type);
   }
 
   private generateClassDeclaration(node: AST.ClassDeclaration): void {
     // Generate struct
+    if (this.usesJson) {
+      this.writeIndent();
+      this.output += '#[derive(serde::Serialize, serde::Deserialize)]\n';
+    }
     this.writeIndent();
     this.output += 'struct ';
     this.output += node.id.name;
+    this.generateTypeParameters(node.typeParameters, true);
     this.output += ' {\n';
 
     this.indentLevel++;
@@ -200,16 +561,19 @@ export class RustCodeGenerator {
     // Generate fields
     for (const member of node.body.body) {
       if (member.type === 'PropertyDefinition') {
+        this.sourceMap.mark(this.output.length, member.position);
         this.writeIndent();
 
-        // Check if field is public (default to pub for simplicity)
-        this.output += 'pub ';
+        if (this.options.publicFields !== false) {
+          this.output += 'pub ';
+        }
 
         this.output += member.key.name;
 
-        if (member.typeAnnotation) {
+        const type = this.slotType(member.typeAnnotation, member.optional, member);
+        if (type) {
           this.output += ': ';
-          this.generateRustType(member.typeAnnotation);
+          this.generateTSType(type);
         }
 
         this.output += ',\n';
@@ -220,12 +584,27 @@ export class RustCodeGenerator {
     this.writeIndent();
     this.output += '}\n\n';
 
+    this.currentClass = node.id.name;
+    this.classFields = new Map();
+    for (const member of node.body.body) {
+      if (member.type === 'PropertyDefinition') {
+        this.classFields.set(member.key.name,
+          this.slotType(member.typeAnnotation, member.optional, member) ?? this.inferType(member.value));
+      }
+    }
+
     // Generate impl block for methods
     const methods = node.body.body.filter(m => m.type === 'MethodDefinition');
     if (methods.length > 0) {
+      this.sourceMap.mark(this.output.length, node.position);
       this.writeIndent();
-      this.output += 'impl ';
+      this.output += 'impl';
+      this.generateTypeParameters(node.typeParameters, false);
+      this.output += ' ';
       this.output += node.id.name;
+      if (node.typeParameters) {
+        this.output += '<' + node.typeParameters.map(param => param.name.name).join(', ') + '>';
+      }
       this.output += ' {\n';
 
       this.indentLevel++;
@@ -241,15 +620,21 @@ export class RustCodeGenerator {
   }
 
   private generateMethodDefinition(node: AST.MethodDefinition): void {
+    this.sourceMap.mark(this.output.length, node.position);
     this.writeIndent();
 
     if (node.kind === 'constructor') {
       this.output += 'pub fn new(';
     } else {
-      this.output += 'pub fn ';
+      this.output += node.value.isAsync ? 'pub async fn ' : 'pub fn ';
       this.output += node.key.name;
+      this.generateTypeParameters(node.value.typeParameters, false);
       this.output += '(';
     }
+    this.scopes.push(new Map());
+    const returnType = this.resolvedReturnType(node.value);
+    this.returnTypes.push(returnType);
+    this.errorTypes.push(node.kind === 'method' ? this.fallible.get(this.currentClass + '.' + node.key.name) : undefined);
 
     // Add &self or &mut self for non-constructor methods
     if (node.kind !== 'constructor') {
@@ -277,11 +662,10 @@ export class RustCodeGenerator {
     this.output += ')';
 
     // Return type
-    if (node.value.returnType) {
-      this.output += ' -> ';
-      this.generateRustType(node.value.returnType);
-    } else if (node.kind === 'constructor') {
+    if (node.kind === 'constructor') {
       this.output += ' -> Self';
+    } else {
+      this.generateReturnType(returnType);
     }
 
     this.output += ' ';
@@ -290,8 +674,11 @@ export class RustCodeGenerator {
     if (node.kind === 'constructor') {
       this.generateConstructorBody(node.value.body);
     } else {
-      this.generateBlockStatement(node.value.body, false);
+      this.generateFunctionBody(node.value.body, returnType);
     }
+    this.errorTypes.pop();
+    this.returnTypes.pop();
+    this.scopes.pop();
     this.output += '\n';
   }
 
@@ -338,10 +725,19 @@ export class RustCodeGenerator {
       this.writeIndent();
       this.output += fieldAssignments[i].field;
       this.output += ': ';
-      this.generateExpression(fieldAssignments[i].value);
+      this.generateExpressionAs(fieldAssignments[i].value, this.classFields.get(fieldAssignments[i].field));
       this.output += ',\n';
     }
 
+    // Optional fields the constructor leaves unset start out empty
+    for (const [field, type] of this.classFields) {
+      if (this.optionInner(type) && !fieldAssignments.some(assignment => assignment.field === field)) {
+        this.writeIndent();
+        this.output += field;
+        this.output += ': None,\n';
+      }
+    }
+
     this.indentLevel--;
     this.writeIndent();
     this.output += '}\n';
@@ -351,9 +747,13 @@ export class RustCodeGenerator {
   }
 
   private generateInterfaceDeclaration(node: AST.InterfaceDeclaration): void {
+    // The members of a discriminated union are variants of its enum rather than types of their own
+    if (this.variantUnion(node.id.name)) return;
+
     this.writeIndent();
-    this.output += 'pub trait ';
+    this.output += 'trait ';
     this.output += node.id.name;
+    this.generateTypeParameters(node.typeParameters, true);
     this.output += ' {\n';
 
     this.indentLevel++;
@@ -365,9 +765,10 @@ export class RustCodeGenerator {
         this.output += 'fn get_';
         this.output += member.key.name;
         this.output += '(&self)';
-        if (member.typeAnnotation) {
+        const type = this.slotType(member.typeAnnotation, member.optional);
+        if (type) {
           this.output += ' -> ';
-          this.generateRustType(member.typeAnnotation);
+          this.generateTSType(type);
         }
         this.output += ';\n';
       }
@@ -379,18 +780,160 @@ export class RustCodeGenerator {
   }
 
   private generateTypeAliasDeclaration(node: AST.TypeAliasDeclaration): void {
+    const union = this.getUnionEnum(node.id.name);
+    if (union) {
+      this.generateUnionEnum(union);
+      return;
+    }
+
     this.writeIndent();
     this.output += 'type ';
     this.output += node.id.name;
+    this.generateTypeParameters(node.typeParameters, true);
     this.output += ' = ';
     this.generateRustType(node.typeAnnotation);
     this.output += ';\n';
   }
 
+  private generateEnumDeclaration(node: AST.EnumDeclaration): void {
+    // String values cannot be discriminants, so string enums expose them through as_str()
+    const isStringEnum = node.members.some(m => m.initializer?.type === 'StringLiteral');
+
+    this.writeIndent();
+    this.output += `#[derive(Debug, Clone, Copy, PartialEq, Eq${this.serdeDerives()})]\n`;
+    this.writeIndent();
+    this.output += 'enum ';
+    this.output += node.id.name;
+    this.output += ' {\n';
+
+    this.indentLevel++;
+    for (const member of node.members) {
+      this.writeIndent();
+      this.output += member.id.name;
+      if (member.initializer && !isStringEnum) {
+        this.output += ' = ';
+        this.generateExpression(member.initializer);
+      }
+      this.output += ',\n';
+    }
+    this.indentLevel--;
+
+    this.writeIndent();
+    this.output += '}\n';
+
+    if (isStringEnum) {
+      this.generateEnumStringImpls(node);
+    }
+  }
+
+  private generateEnumStringImpls(node: AST.EnumDeclaration): void {
+    const name = node.id.name;
+
+    this.output += '\n';
+    this.writeIndent();
+    this.output += `impl ${name} {\n`;
+    this.indentLevel++;
+    this.writeIndent();
+    this.output += "pub fn as_str(&self) -> &'static str {\n";
+    this.indentLevel++;
+    this.writeIndent();
+    this.output += 'match self {\n';
+    this.indentLevel++;
+
+    for (const member of node.members) {
+      const init = member.initializer;
+      const value = init?.type === 'StringLiteral' || init?.type === 'NumberLiteral'
+        ? String(init.value)
+        : member.id.name;
+      this.writeIndent();
+      this.output += `${name}::${member.id.name} => ${JSON.stringify(value)},\n`;
+    }
+
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n\n';
+
+    this.writeIndent();
+    this.output += `impl std::fmt::Display for ${name} {\n`;
+    this.indentLevel++;
+    this.writeIndent();
+    this.output += 'fn fmt(&self, f: &mut std::fmt::Formatter) -> std::fmt::Result {\n';
+    this.indentLevel++;
+    this.writeIndent();
+    this.output += 'f.write_str(self.as_str())\n';
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+  }
+
+  private generateUnionEnum(union: UnionEnum): void {
+    const fieldless = union.variants.every(variant => variant.fields.length === 0);
+
+    this.writeIndent();
+    this.output += fieldless
+      ? `#[derive(Debug, Clone, Copy, PartialEq, Eq${this.serdeDerives()})]\n`
+      : `#[derive(Debug, Clone, PartialEq${this.serdeDerives()})]\n`;
+    this.writeIndent();
+    this.output += 'enum ';
+    this.output += union.name;
+    this.output += ' {\n';
+
+    this.indentLevel++;
+    for (const variant of union.variants) {
+      this.writeIndent();
+      this.output += variant.name;
+
+      if (variant.fields.length > 0) {
+        this.output += ' { ';
+        for (let i = 0; i < variant.fields.length; i++) {
+          if (i > 0) this.output += ', ';
+          const field = variant.fields[i];
+          this.output += field.key.name;
+          const type = this.slotType(field.typeAnnotation, field.optional);
+          if (type) {
+            this.output += ': ';
+            this.generateTSType(type);
+          }
+        }
+        this.output += ' }';
+      }
+
+      this.output += ',\n';
+    }
+    this.indentLevel--;
+
+    this.writeIndent();
+    this.output += '}\n';
+  }
+
   private generateIfStatement(node: AST.IfStatement): void {
+    // if/else chains testing a union's tag become a single match
+    const chain = this.matchTagChain(node);
+    if (chain) {
+      this.generateTagMatch(chain.subject, chain.union, chain.arms, chain.otherwise);
+      return;
+    }
+
+    // `if (x !== null)` unwraps the Option for the consequent
+    const unwrapped = this.matchPresenceCheck(node.test);
+
     this.writeIndent();
     this.output += 'if ';
-    this.generateExpression(node.test);
+    if (unwrapped) {
+      this.output += 'let Some(' + unwrapped.name + ') = ' + unwrapped.name;
+      this.scopes.push(new Map([[unwrapped.name, unwrapped.inner]]));
+    } else {
+      this.generateExpression(node.test);
+    }
     this.output += ' ';
 
     if (node.consequent.type === 'BlockStatement') {
@@ -404,6 +947,10 @@ export class RustCodeGenerator {
       this.output += '}';
     }
 
+    if (unwrapped) {
+      this.scopes.pop();
+    }
+
     if (node.alternate) {
       this.output += ' else ';
       if (node.alternate.type === 'IfStatement') {
@@ -422,405 +969,2321 @@ export class RustCodeGenerator {
     this.output += '\n';
   }
 
-  private generateWhileStatement(node: AST.WhileStatement): void {
+  private generateSwitchStatement(node: AST.SwitchStatement): void {
+    const discriminant = node.discriminant;
+    const union = discriminant.type === 'MemberExpression' ? this.taggedUnionOf(discriminant) : null;
+
     this.writeIndent();
-    this.output += 'while ';
-    this.generateExpression(node.test);
-    this.output += ' ';
+    this.output += 'match ';
+    this.generateExpression(union ? (discriminant as AST.MemberExpression).object : discriminant);
+    this.output += ' {\n';
+    this.indentLevel++;
 
-    if (node.body.type === 'BlockStatement') {
-      this.generateBlockStatement(node.body, false);
-    } else {
-      this.output += '{\n';
-      this.indentLevel++;
-      this.generateStatement(node.body);
-      this.indentLevel--;
+    // Empty cases fall through, so they share the arm of the next non-empty case. The default arm
+    // goes last, as `_` matches everything and would shadow the arms after it.
+    const covered = new Set<string>();
+    let fallback: AST.Statement[] | undefined;
+    let pending: AST.SwitchCase[] = [];
+
+    for (let i = 0; i < node.cases.length; i++) {
+      const switchCase = node.cases[i];
+      const isLast = i === node.cases.length - 1;
+      pending.push(switchCase);
+      if (switchCase.consequent.length === 0 && !isLast) continue;
+
+      if (!isLast && !this.exits(switchCase.consequent)) {
+        this.reportLossy(switchCase, 'Case falls through into the next one, which a match arm cannot do',
+          'end the case with break, or repeat the statements of the next case');
+      }
+
+      const body = switchCase.consequent.filter((statement, index) =>
+        !(statement.type === 'BreakStatement' && index === switchCase.consequent.length - 1));
+
+      if (pending.some(c => !c.test)) {
+        fallback = body;
+      } else if (union) {
+        const variants: UnionVariant[] = [];
+        for (const c of pending) {
+          const variant = this.variantForTag(union, c.test!);
+          if (variant) {
+            variants.push(variant);
+          } else {
+            this.reportLossy(c.test!, `Case is not a variant of \`${union.name}\` and is left out`,
+              `compare against one of the "${union.tag}" values of ${union.name}`);
+          }
+        }
+        variants.forEach(variant => covered.add(variant.name));
+
+        const subject = (discriminant as AST.MemberExpression).object;
+        if (variants.length === 1 && subject.type === 'Identifier') {
+          this.writeIndent();
+          this.generateNarrowedArm(subject.name, union, variants[0], body, this.caseLabel(body));
+        } else if (variants.length > 0) {
+          this.writeIndent();
+          this.output += variants.map(variant => this.variantPattern(union, variant, [])).join(' | ');
+          this.generateMatchArmBody(body, this.caseLabel(body));
+        }
+      } else {
+        const patternType = this.typeOf(discriminant);
+        this.writeIndent();
+        for (let j = 0; j < pending.length; j++) {
+          if (j > 0) this.output += ' | ';
+          this.generateExpressionAs(pending[j].test!, patternType);
+        }
+        this.generateMatchArmBody(body, this.caseLabel(body));
+      }
+
+      pending = [];
+    }
+
+    if (fallback) {
       this.writeIndent();
-      this.output += '}';
+      this.output += '_';
+      this.generateMatchArmBody(fallback, this.caseLabel(fallback));
+    } else if (!(union && covered.size === union.variants.length)) {
+      this.writeIndent();
+      this.output += '_ => {}\n';
     }
-    this.output += '\n';
-  }
 
-  private generateForStatement(node: AST.ForStatement): void {
-    // Convert simple for loops to Rust's for..in range syntax
-    this.writeIndent();
-    this.output += '// for loop - requires manual conversion\n';
+    this.indentLevel--;
     this.writeIndent();
-    this.output += 'loop ';
+    this.output += '}\n';
+  }
 
-    if (node.body.type === 'BlockStatement') {
-      this.generateBlockStatement(node.body, false);
-    } else {
-      this.output += '{\n';
-      this.indentLevel++;
-      this.generateStatement(node.body);
-      this.indentLevel--;
-      this.writeIndent();
-      this.output += '}';
+  /**
+   * A label for the arm of a switch case that breaks out of it from inside, as a bare `break` in a
+   * match arm would leave the enclosing loop instead
+   */
+  private caseLabel(body: AST.Statement[]): string | undefined {
+    if (!body.some(statement => this.breaksCase(statement))) return undefined;
+    const depth = this.breakLabels.filter(label => label).length;
+    return depth === 0 ? 'case' : 'case_' + depth;
+  }
+
+  private breaksCase(node: AST.BaseNode): boolean {
+    switch (node.type) {
+      case 'BreakStatement':
+        return true;
+      case 'WhileStatement':
+      case 'ForStatement':
+      case 'ForOfStatement':
+      case 'ForInStatement':
+      case 'SwitchStatement':
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassDeclaration':
+        return false;
+      default:
+        return this.childNodes(node).some(child => this.breaksCase(child));
     }
-    this.output += '\n';
   }
 
-  private generateBlockStatement(node: AST.BlockStatement, addIndent: boolean = true): void {
-    this.output += '{\n';
+  /**
+   * Whether control never reaches the end of these statements, so a switch case does not fall through
+   */
+  private exits(statements: AST.Statement[]): boolean {
+    const last = statements[statements.length - 1];
+    switch (last?.type) {
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'ReturnStatement':
+      case 'ThrowStatement':
+        return true;
+      case 'BlockStatement':
+        return this.exits(last.body);
+      case 'IfStatement':
+        return !!last.alternate && this.exits(this.statementsOf(last.consequent)) && this.exits(this.statementsOf(last.alternate));
+      default:
+        return false;
+    }
+  }
+
+  private generateTagMatch(
+    subject: AST.Identifier,
+    union: UnionEnum,
+    arms: { variant: UnionVariant; body: AST.Statement }[],
+    otherwise?: AST.Statement,
+  ): void {
+    this.writeIndent();
+    this.output += 'match ';
+    this.output += subject.name;
+    this.output += ' {\n';
     this.indentLevel++;
-    this.scopeLevel++;
 
-    for (const statement of node.body) {
-      this.generateStatement(statement);
+    for (const arm of arms) {
+      this.writeIndent();
+      this.generateNarrowedArm(subject.name, union, arm.variant, this.statementsOf(arm.body));
+    }
+
+    // An else that can only be one variant is narrowed to it as well
+    const covered = new Set(arms.map(arm => arm.variant.name));
+    const remaining = union.variants.filter(variant => !covered.has(variant.name));
+    if (otherwise && remaining.length === 1) {
+      this.writeIndent();
+      this.generateNarrowedArm(subject.name, union, remaining[0], this.statementsOf(otherwise));
+    } else if (otherwise || remaining.length > 0) {
+      this.writeIndent();
+      this.output += '_';
+      this.generateMatchArmBody(otherwise ? this.statementsOf(otherwise) : []);
     }
 
     this.indentLevel--;
-    this.scopeLevel--;
-    if (addIndent) this.writeIndent();
-    this.output += '}';
+    this.writeIndent();
+    this.output += '}\n';
   }
 
-  private generateImportDeclaration(node: AST.ImportDeclaration): void {
-    this.writeIndent();
-    this.output += 'use ';
+  private generateNarrowedArm(subject: string, union: UnionEnum, variant: UnionVariant, body: AST.Statement[], label?: string): void {
+    // Bind only the fields the arm reads, rewriting `s.field` to `field` inside it
+    const used = variant.fields
+      .map(field => field.key.name)
+      .filter(field => body.some(statement => this.readsMember(statement, subject, field)));
 
-    // Simple conversion - assumes module path
-    const modulePath = node.source.value.replace(/['"]/g, '');
-    this.output += modulePath.replace(/\//g, '::');
+    this.output += this.variantPattern(union, variant, used);
 
-    if (node.specifiers && node.specifiers.length > 0) {
-      this.output += '::{';
-      for (let i = 0; i < node.specifiers.length; i++) {
-        if (i > 0) this.output += ', ';
-        const spec = node.specifiers[i];
-        if (spec.type === 'ImportSpecifier') {
-          this.output += spec.imported.name;
-        }
-      }
-      this.output += '}';
+    const previous = this.narrowed.get(subject);
+    this.narrowed.set(subject, used);
+    this.generateMatchArmBody(body, label);
+    if (previous) {
+      this.narrowed.set(subject, previous);
+    } else {
+      this.narrowed.delete(subject);
+    }
+  }
+
+  private generateMatchArmBody(body: AST.Statement[], label?: string): void {
+    this.output += label ? ` => '${label}: {\n` : ' => {\n';
+    this.indentLevel++;
+    this.scopes.push(new Map());
+    if (label) this.breakLabels.push(label);
+
+    for (const statement of body) {
+      this.generateStatement(statement);
     }
 
-    this.output += ';\n';
+    if (label) this.breakLabels.pop();
+    this.scopes.pop();
+    this.indentLevel--;
+    this.writeIndent();
+    this.output += '}\n';
   }
 
-  private generateTryStatement(node: AST.TryStatement): void {
+  private variantPattern(union: UnionEnum, variant: UnionVariant, bindings: string[]): string {
+    const path = union.name + '::' + variant.name;
+    if (variant.fields.length === 0) {
+      return path;
+    }
+    if (bindings.length === 0) {
+      return path + ' { .. }';
+    }
+    const rest = bindings.length < variant.fields.length ? ', ..' : '';
+    return path + ' { ' + bindings.join(', ') + rest + ' }';
+  }
+
+  private generateWhileStatement(node: AST.WhileStatement): void {
     this.writeIndent();
-    this.output += '// try-catch - use Result<T, E> pattern in Rust\n';
-    this.generateBlockStatement(node.block);
+    this.output += 'while ';
+    this.generateExpression(node.test);
+    this.output += ' ';
+
+    this.loopUpdates.push(undefined);
+    this.breakLabels.push(undefined);
+    this.generateLoopBody(node.body);
+    this.breakLabels.pop();
+    this.loopUpdates.pop();
     this.output += '\n';
   }
 
-  private generateExpression(node: AST.Expression): void {
-    switch (node.type) {
-      case 'Identifier':
-        this.output += node.name;
-        break;
-      case 'StringLiteral':
-      case 'NumberLiteral':
-      case 'BooleanLiteral':
-      case 'NullLiteral':
-        this.generateLiteral(node);
-        break;
-      case 'BinaryExpression':
-        this.generateBinaryExpression(node);
-        break;
-      case 'UnaryExpression':
-        this.generateUnaryExpression(node);
-        break;
-      case 'AssignmentExpression':
-        this.generateAssignmentExpression(node);
-        break;
-      case 'CallExpression':
-        this.generateCallExpression(node);
-        break;
-      case 'MemberExpression':
-        this.generateMemberExpression(node);
-        break;
-      case 'NewExpression':
-        this.generateNewExpression(node);
-        break;
-      case 'ArrayExpression':
-        this.generateArrayExpression(node);
-        break;
-      case 'ObjectExpression':
-        this.generateObjectExpression(node);
-        break;
-      case 'ArrowFunctionExpression':
-        this.generateArrowFunctionExpression(node);
-        break;
-      case 'ConditionalExpression':
-        this.generateConditionalExpression(node);
-        break;
-      case 'AwaitExpression':
-        this.generateExpression(node.argument);
-        this.output += '.await';
-        break;
-      case 'FunctionExpression':
-        this.output += '/* ' + node.type + ' */';
-        break;
-      case 'ThisExpression':
-        this.output += 'self';
-        break;
+  private generateForStatement(node: AST.ForStatement): void {
+    // Counting loops become Rust ranges, every other shape becomes a while loop
+    const range = this.matchCountingLoop(node);
+    if (range) {
+      this.generateRangeLoop(range, node.body);
+    } else {
+      this.generateForAsWhile(node);
     }
   }
 
-  private generateLiteral(node: AST.Literal): void {
-    if (node.type === 'StringLiteral') {
-      this.output += '"' + node.value + '"';
-    } else if (node.type === 'NumberLiteral') {
-      this.output += String(node.value);
-    } else if (node.type === 'BooleanLiteral') {
-      this.output += String(node.value);
-    } else if (node.type === 'NullLiteral') {
-      this.output += 'None';
+  private generateRangeLoop(range: CountingLoop, body: AST.Statement): void {
+    this.writeIndent();
+    this.output += 'for ';
+    this.output += range.variable;
+    this.output += ' in ';
+
+    const chained = range.descending || range.step !== undefined;
+    if (chained) this.output += '(';
+
+    if (range.descending) {
+      // `i = a; i > b; i--` visits a down to b + 1, which is (b + 1..=a) reversed
+      if (range.inclusive) {
+        this.generateExpression(range.end);
+      } else if (range.end.type === 'NumberLiteral') {
+        this.output += String(range.end.value + 1);
+      } else {
+        this.generateExpression(range.end);
+        this.output += ' + 1';
+      }
+      this.output += '..=';
+      this.generateExpression(range.start);
+    } else {
+      this.generateExpression(range.start);
+      this.output += range.inclusive ? '..=' : '..';
+      this.generateExpression(range.end);
     }
-  }
 
-  private generateBinaryExpression(node: AST.BinaryExpression): void {
-    // Detect string concatenation
-    if (node.operator === '+' && this.isStringExpression(node.left)) {
-      const parts = this.collectStringConcatParts(node);
+    if (chained) this.output += ')';
+    if (range.descending) this.output += '.rev()';
+    if (range.step) {
+      this.output += '.step_by(';
+      this.generateExpression(range.step);
+      this.output += ')';
+    }
 
-      let formatStr = '';
-      const args: AST.Expression[] = [];
+    this.output += ' ';
+    this.loopUpdates.push(undefined);
+    this.breakLabels.push(undefined);
+    this.generateLoopBody(body);
+    this.breakLabels.pop();
+    this.loopUpdates.pop();
+    this.output += '\n';
+  }
 
-      for (const part of parts) {
-        if (part.type === 'StringLiteral') {
-          // Remove surrounding quotes and add to format string
-          formatStr += part.value;
-        } else {
-          formatStr += '{}';
-          args.push(part);
-        }
-      }
+  private generateForAsWhile(node: AST.ForStatement): void {
+    // Keep the loop variable scoped to the loop, as `let` is in JavaScript
+    const scoped = node.init?.type === 'VariableDeclaration';
+    if (scoped) {
+      this.writeIndent();
+      this.output += '{\n';
+      this.indentLevel++;
+      this.scopeLevel++;
+    }
 
-      this.output += `format!("${formatStr}"`;
-      for (const arg of args) {
-        this.output += ', ';
-        this.generateExpression(arg);
+    if (node.init) {
+      if (node.init.type === 'VariableDeclaration') {
+        this.generateLoopVariables(node.init, node);
+      } else {
+        this.writeIndent();
+        this.generateEffect(node.init);
+        this.output += ';\n';
       }
-      this.output += ')';
+    }
+
+    this.writeIndent();
+    if (node.test) {
+      this.output += 'while ';
+      this.generateExpression(node.test);
+      this.output += ' {\n';
     } else {
-      this.generateExpression(node.left);
+      this.output += 'loop {\n';
+    }
+    this.indentLevel++;
+    this.scopeLevel++;
 
-      // Convert JavaScript operators to Rust equivalents
-      let operator = node.operator;
-      if (operator === '===') operator = '==';
-      if (operator === '!==') operator = '!=';
+    this.loopUpdates.push(node.update);
+    this.breakLabels.push(undefined);
+    const statements = node.body.type === 'BlockStatement' ? node.body.body : [node.body];
+    for (const statement of statements) {
+      this.generateStatement(statement);
+    }
+    this.breakLabels.pop();
+    this.loopUpdates.pop();
 
-      this.output += ' ' + operator + ' ';
-      this.generateExpression(node.right);
+    if (node.update) {
+      this.generateLoopUpdate(node.update);
     }
-  }
 
-  private generateUnaryExpression(node: AST.UnaryExpression): void {
-    this.output += node.operator;
-    this.generateExpression(node.argument);
+    this.indentLevel--;
+    this.scopeLevel--;
+    this.writeIndent();
+    this.output += '}\n';
+
+    if (scoped) {
+      this.indentLevel--;
+      this.scopeLevel--;
+      this.writeIndent();
+      this.output += '}\n';
+    }
   }
 
-  private generateAssignmentExpression(node: AST.AssignmentExpression): void {
-    this.generateExpression(node.left);
-    this.output += ' ' + node.operator + ' ';
-    this.generateExpression(node.right);
+  private generateForOfStatement(node: AST.ForOfStatement): void {
+    this.writeIndent();
+    this.output += 'for ';
+    this.generateLoopBinding(node.left);
+    this.output += ' in ';
+    this.generateReceiver(node.right);
+
+    // The loop variable's decorations decide how the collection is iterated
+    const ownership = this.getDecoration(node.left, 'ownership');
+    if (this.hasDecoration(node.left, 'mut')) {
+      this.output += '.iter_mut()';
+    } else if (!ownership || !(ownership.includes('owned') || ownership.includes('moved'))) {
+      this.output += '.iter()';
+    }
+
+    this.output += ' ';
+    this.generateIterationBody(node);
   }
 
-  private generateCallExpression(node: AST.CallExpression): void {
-    // Handle console.log specially
-    if (node.callee.type === 'MemberExpression' &&
-        node.callee.object.type === 'Identifier' &&
-        node.callee.object.name === 'console' &&
-        node.callee.property.type === 'Identifier' &&
-        node.callee.property.name === 'log') {
-      this.output += 'println!(';
+  private generateForInStatement(node: AST.ForInStatement): void {
+    const iterableType = this.typeOf(node.right);
 
-      // Generate format string if there are multiple arguments
-      if (node.arguments.length > 1) {
-        this.output += '"';
-        for (let i = 0; i < node.arguments.length; i++) {
-          if (i > 0) this.output += ' ';
-          this.output += '{:?}';
-        }
-        this.output += '", ';
-        for (let i = 0; i < node.arguments.length; i++) {
-          if (i > 0) this.output += ', ';
-          this.generateExpression(node.arguments[i]);
-        }
-      } else if (node.arguments.length === 1) {
-        this.output += '"{:?}", ';
-        this.generateExpression(node.arguments[0]);
-      }
+    this.writeIndent();
+    this.output += 'for ';
 
-      this.output += ')';
-    } else {
-      this.generateExpression(node.callee);
-      this.output += '(';
-      for (let i = 0; i < node.arguments.length; i++) {
-        if (i > 0) this.output += ', ';
-        this.generateExpression(node.arguments[i]);
+    if (this.isMapType(iterableType)) {
+      // Iterate entries so the value is at hand without a second lookup
+      if (node.left.type === 'ArrayPattern') {
+        this.generateLoopBinding(node.left);
+      } else {
+        this.output += '(' + node.left.name + ', _)';
       }
-      this.output += ')';
+      this.output += ' in ';
+      this.generateReceiver(node.right);
+      this.output += this.hasDecoration(node.left, 'mut') ? '.iter_mut()' : '.iter()';
+    } else if (this.isArrayType(iterableType)) {
+      this.generateLoopBinding(node.left);
+      this.output += ' in 0..';
+      this.generateReceiver(node.right);
+      this.output += '.len()';
+    } else {
+      this.generateLoopBinding(node.left);
+      this.output += ' in ';
+      this.generateReceiver(node.right);
+      this.output += '.keys()';
     }
+
+    this.output += ' ';
+    this.generateIterationBody(node);
   }
 
-  private generateMemberExpression(node: AST.MemberExpression): void {
-    this.generateExpression(node.object);
-    if (node.computed) {
-      this.output += '[';
-      this.generateExpression(node.property);
-      this.output += ']';
+  private generateLoopBinding(node: AST.Identifier | AST.ArrayPattern): void {
+    if (node.type === 'ArrayPattern') {
+      this.output += '(' + node.elements.map(element => element.name).join(', ') + ')';
     } else {
-      this.output += '.';
-      if (node.property.type === 'Identifier') {
-        this.output += node.property.name;
-      } else {
-        this.generateExpression(node.property);
-      }
+      this.output += node.name;
     }
   }
 
-  private generateNewExpression(node: AST.NewExpression): void {
-    // In Rust, we use StructName::new() pattern
-    if (node.callee.type === 'Identifier') {
-      this.output += node.callee.name;
-      this.output += '::new(';
-      for (let i = 0; i < node.arguments.length; i++) {
-        if (i > 0) this.output += ', ';
-        this.generateExpression(node.arguments[i]);
+  private generateReceiver(node: AST.Expression): void {
+    const needsParens = !['Identifier', 'MemberExpression', 'CallExpression', 'ThisExpression', 'StringLiteral', 'TSNonNullExpression'].includes(node.type);
+    if (needsParens) this.output += '(';
+    this.generateExpression(node);
+    if (needsParens) this.output += ')';
+  }
+
+  private generateIterationBody(node: AST.ForOfStatement | AST.ForInStatement): void {
+    this.scopes.push(new Map());
+    const bindings = node.left.type === 'ArrayPattern' ? node.left.elements : [node.left];
+    for (const binding of bindings) {
+      this.declare(binding.name, undefined);
+    }
+
+    // `iter_mut()` yields `&mut` elements, so the loop variable reads and writes through the reference
+    const previous = new Set(this.references);
+    if (node.type === 'ForOfStatement' && node.left.type === 'Identifier' && this.hasDecoration(node.left, 'mut')) {
+      const iterable = this.typeOf(node.right);
+      this.declare(node.left.name, iterable?.type === 'TSArrayType' ? iterable.elementType : undefined);
+      this.references.add(node.left.name);
+    } else {
+      for (const binding of bindings) this.references.delete(binding.name);
+    }
+
+    this.loopUpdates.push(undefined);
+    this.breakLabels.push(undefined);
+    this.generateLoopBody(node.body);
+    this.breakLabels.pop();
+    this.loopUpdates.pop();
+    this.references = previous;
+    this.scopes.pop();
+    this.output += '\n';
+  }
+
+  private generateLoopVariables(node: AST.VariableDeclaration, loop: AST.ForStatement): void {
+    for (const decl of node.declarations) {
+      this.writeIndent();
+      this.output += 'let ';
+
+      if (this.hasDecoration(decl.id, 'mut') ||
+          this.assignsTo(loop.update, decl.id.name) ||
+          this.assignsTo(loop.body, decl.id.name)) {
+        this.output += 'mut ';
       }
-      this.output += ')';
+
+      this.output += decl.id.name;
+
+      if (decl.typeAnnotation) {
+        this.output += ': ';
+        this.generateRustType(decl.typeAnnotation);
+      }
+
+      if (decl.init) {
+        this.output += ' = ';
+        this.generateExpression(decl.init);
+      }
+
+      this.output += ';\n';
+    }
+  }
+
+  private generateLoopUpdate(update: AST.Expression): void {
+    this.writeIndent();
+    this.generateEffect(update);
+    this.output += ';\n';
+  }
+
+  private generateContinueStatement(): void {
+    // A for loop lowered to while must still run its update before the next iteration
+    const update = this.loopUpdates[this.loopUpdates.length - 1];
+    if (update) {
+      this.generateLoopUpdate(update);
+    }
+
+    this.writeIndent();
+    this.output += 'continue;\n';
+  }
+
+  private generateLoopBody(body: AST.Statement): void {
+    if (body.type === 'BlockStatement') {
+      this.generateBlockStatement(body, false);
     } else {
-      this.generateExpression(node.callee);
-      this.output += '::new(';
-      for (let i = 0; i < node.arguments.length; i++) {
-        if (i > 0) this.output += ', ';
-        this.generateExpression(node.arguments[i]);
+      this.output += '{\n';
+      this.indentLevel++;
+      this.generateStatement(body);
+      this.indentLevel--;
+      this.writeIndent();
+      this.output += '}';
+    }
+  }
+
+  private matchCountingLoop(node: AST.ForStatement): CountingLoop | null {
+    const { init, test, update } = node;
+
+    if (!init || init.type !== 'VariableDeclaration' || init.declarations.length !== 1) return null;
+    const declarator = init.declarations[0];
+    if (!declarator.init) return null;
+    const variable = declarator.id.name;
+
+    if (!test || test.type !== 'BinaryExpression' || !this.isIdentifierNamed(test.left, variable)) return null;
+    if (!['<', '<=', '>', '>='].includes(test.operator)) return null;
+    const descending = test.operator === '>' || test.operator === '>=';
+
+    let step: AST.Expression | undefined;
+    if (update?.type === 'UnaryExpression' && (update.operator === '++' || update.operator === '--')) {
+      if (!this.isIdentifierNamed(update.argument, variable)) return null;
+      if ((update.operator === '--') !== descending) return null;
+    } else if (update?.type === 'AssignmentExpression' && (update.operator === '+=' || update.operator === '-=')) {
+      if (!this.isIdentifierNamed(update.left, variable)) return null;
+      if ((update.operator === '-=') !== descending) return null;
+      if (update.right.type !== 'NumberLiteral' || update.right.value !== 1) {
+        step = update.right;
       }
-      this.output += ')';
+    } else {
+      return null;
+    }
+
+    // A range is evaluated once, so the body must not move the variable or the bound
+    if (this.assignsTo(node.body, variable)) return null;
+    for (const name of this.collectIdentifiers(test.right)) {
+      if (this.assignsTo(node.body, name)) return null;
     }
+
+    return {
+      variable,
+      start: declarator.init,
+      end: test.right,
+      inclusive: test.operator === '<=' || test.operator === '>=',
+      descending,
+      step,
+    };
   }
 
-  private generateArrayExpression(node: AST.ArrayExpression): void {
-    this.output += 'vec![';
-    for (let i = 0; i < node.elements.length; i++) {
-      if (i > 0) this.output += ', ';
-      this.generateExpression(node.elements[i]);
+  private generateBlockStatement(node: AST.BlockStatement, addIndent: boolean = true, tail?: string): void {
+    this.output += '{\n';
+    this.indentLevel++;
+    this.scopeLevel++;
+    this.scopes.push(new Map());
+
+    for (const statement of node.body) {
+      this.generateStatement(statement);
     }
-    this.output += ']';
+
+    if (tail) {
+      this.writeIndent();
+      this.output += tail + '\n';
+    }
+
+    this.scopes.pop();
+    this.indentLevel--;
+    this.scopeLevel--;
+    if (addIndent) this.writeIndent();
+    this.output += '}';
   }
 
-  private generateObjectExpression(node: AST.ObjectExpression): void {
-    // Rust doesn't have object literals, need to use struct initialization
-    this.output += '/* object literal - use struct */ {';
-    for (let i = 0; i < node.properties.length; i++) {
-      if (i > 0) this.output += ', ';
-      const prop = node.properties[i];
-      if (prop.type === 'Property') {
-        if (prop.key.type === 'Identifier') {
-          this.output += prop.key.name;
+  private generateImportDeclaration(node: AST.ImportDeclaration): void {
+    const resolved = this.module?.resolveImport(node.source.value);
+    if (resolved) {
+      this.generateModuleImport(node, resolved.path);
+      return;
+    }
+
+    // Compiling one file, a relative import names a module of the crate that this output does not contain;
+    // in a project the module graph has already reported the ones it could not resolve
+    const specifier = node.source.value;
+    if (specifier.startsWith('./') || specifier.startsWith('../')) {
+      if (this.module) return;
+      const path = importedModulePath(specifier);
+      if (!path) {
+        this.report(DiagnosticCode.UnresolvedImport, 'error', `Cannot translate the import of '${specifier}', which is outside the directory of this file`,
+          node.source, 'compile the project from an entry file in a directory that contains every file it imports');
+        return;
+      }
+      this.report(DiagnosticCode.UnresolvedImport, 'warning', `'${specifier}' is not compiled with this file; \`crate::${path.join('::')}\` must be provided separately`,
+        node.source, 'compile the entry file as a project to translate the files it imports');
+      this.generateModuleImport(node, path);
+      return;
+    }
+
+    this.writeIndent();
+    this.output += 'use ';
+
+    // Simple conversion - assumes module path
+    const modulePath = node.source.value.replace(/['"]/g, '');
+    this.output += modulePath.replace(/\//g, '::');
+
+    if (node.specifiers && node.specifiers.length > 0) {
+      this.output += '::{';
+      for (let i = 0; i < node.specifiers.length; i++) {
+        if (i > 0) this.output += ', ';
+        const spec = node.specifiers[i];
+        if (spec.type === 'ImportSpecifier') {
+          this.output += spec.imported.name;
         }
-        this.output += ': ';
-        this.generateExpression(prop.value);
       }
+      this.output += '}';
     }
-    this.output += '}';
+
+    this.output += ';\n';
   }
 
-  private generateArrowFunctionExpression(node: AST.ArrowFunctionExpression): void {
-    this.output += '|';
-    for (let i = 0; i < node.params.length; i++) {
-      if (i > 0) this.output += ', ';
-      this.generateParameter(node.params[i]);
+  /**
+   * Imports from another file of the project, e.g. `use crate::util::x::{a, b as c};`
+   */
+  private generateModuleImport(node: AST.ImportDeclaration, path: string[]): void {
+    const names = node.specifiers.map(spec => {
+      const local = spec.local?.name ?? spec.imported.name;
+      const imported = spec.imported.name === 'default' ? local : spec.imported.name;
+      const constant = this.constants.get(local);
+      if (constant) {
+        const original = this.toConstantName(imported);
+        return original === constant ? constant : `${original} as ${constant}`;
+      }
+      return imported === local ? local : `${imported} as ${local}`;
+    });
+
+    this.writeIndent();
+    this.output += 'use crate::' + path.join('::');
+    this.output += names.length === 1 ? '::' + names[0] : '::{' + names.join(', ') + '}';
+    this.output += ';\n';
+  }
+
+  /**
+   * Runs the try block as an immediately called closure returning Result, so `?` and
+   * `return Err(..)` inside it land in the match instead of leaving the function. A block that
+   * returns passes the value out through the closure's Ok, and the function returns it from there.
+   */
+  private generateTryStatement(node: AST.TryStatement): void {
+    const error = this.escapingError(node.block, this.currentClass) ?? 'String';
+    const outerError = this.errorTypes[this.errorTypes.length - 1];
+
+    let returns = this.returnsFrom(node.block);
+    if (returns && !this.exits(node.block.body)) {
+      this.reportLossy(node, 'Try block returns on some paths only, which is not translated',
+        'return on every path through the try block, or after the try statement');
+      returns = false;
+    } else if (returns && node.handler && node.finalizer) {
+      this.reportLossy(node, 'Returning from a try block with both catch and finally is not translated',
+        'return after the try statement');
+      returns = false;
     }
-    this.output += '| ';
+    const valueType = returns ? this.returnTypes[this.returnTypes.length - 1] : undefined;
+    const result = this.freshName('result');
 
-    if (node.body.type === 'BlockStatement') {
-      this.generateBlockStatement(node.body, false);
+    this.writeIndent();
+    this.output += node.handler ? 'match ' : 'let ' + result + ' = ';
+    this.output += '(|| -> Result<';
+    if (valueType) {
+      this.generateTSType(valueType);
     } else {
-      this.generateExpression(node.body);
+      this.output += '()';
+    }
+    this.output += ', ' + error + '> ';
+    this.errorTypes.push(error);
+    this.returnTypes.push(valueType);
+    this.collectTailReturns(node.block.body);
+    this.generateBlockStatement(node.block, true, returns || this.endsWithExit(node.block) ? undefined : 'Ok(())');
+    this.returnTypes.pop();
+    this.errorTypes.pop();
+    this.output += ')()';
+
+    if (node.handler) {
+      this.output += ' {\n';
+      this.indentLevel++;
+      this.writeIndent();
+      this.output += returns ? `Ok(value) => return ${outerError ? 'Ok(value)' : 'value'},\n` : 'Ok(()) => {}\n';
+      this.writeIndent();
+      this.output += 'Err(' + (node.handler.param?.name ?? '_') + ') => ';
+      this.scopes.push(new Map(node.handler.param ? [[node.handler.param.name, undefined]] : []));
+      this.generateBlockStatement(node.handler.body);
+      this.scopes.pop();
+      this.output += '\n';
+      this.indentLevel--;
+      this.writeIndent();
+      this.output += '}\n';
+    } else {
+      this.output += ';\n';
+    }
+
+    // The finalizer follows the match, so it runs whether or not the block failed
+    if (node.finalizer) {
+      for (const statement of node.finalizer.body) {
+        this.generateStatement(statement);
+      }
+    }
+
+    if (!node.handler) {
+      const value = outerError ? result + '?' : result + '.unwrap()';
+      this.writeIndent();
+      this.output += returns ? `return ${outerError ? `Ok(${value})` : value};\n` : value + ';\n';
     }
   }
 
-  private generateConditionalExpression(node: AST.ConditionalExpression): void {
-    this.output += 'if ';
-    this.generateExpression(node.test);
-    this.output += ' { ';
-    this.generateExpression(node.consequent);
-    this.output += ' } else { ';
-    this.generateExpression(node.alternate);
-    this.output += ' }';
+  /**
+   * Whether a `return` inside node leaves the function it is in, rather than a function nested in it
+   */
+  private returnsFrom(node: AST.BaseNode): boolean {
+    switch (node.type) {
+      case 'ReturnStatement':
+        return true;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassDeclaration':
+        return false;
+      default:
+        return this.childNodes(node).some(child => this.returnsFrom(child));
+    }
   }
 
-  private generateRustType(typeAnnotation: AST.TypeAnnotation): void {
-    const tsType = typeAnnotation.typeAnnotation;
-    this.generateTSType(tsType);
+  /**
+   * A name for a generated binding that no identifier of the program uses
+   */
+  private freshName(base: string): string {
+    let name = base;
+    while (this.names.has(name)) name += '_';
+    return name;
   }
 
-  private generateTSType(tsType: AST.TSType): void {
-    switch (tsType.type) {
-      case 'TSStringKeyword':
-        this.output += 'String';
+  private generateReturnType(returnType: AST.TSType | undefined): void {
+    const error = this.errorTypes[this.errorTypes.length - 1];
+    if (error) {
+      this.output += ' -> Result<';
+      if (returnType) {
+        this.generateTSType(returnType);
+      } else {
+        this.output += '()';
+      }
+      this.output += ', ' + error + '>';
+    } else if (returnType) {
+      this.output += ' -> ';
+      this.generateTSType(returnType);
+    }
+  }
+
+  private generateFunctionBody(body: AST.BlockStatement, returnType: AST.TSType | undefined): void {
+    // A fallible function without a value to return still has to end in Ok(())
+    const error = this.errorTypes[this.errorTypes.length - 1];
+    const returnsUnit = !returnType || returnType.type === 'TSVoidKeyword';
+    const tail = error && returnsUnit && !this.endsWithExit(body) ? 'Ok(())' : undefined;
+    this.collectTailReturns(body.body);
+    this.generateBlockStatement(body, false, tail);
+  }
+
+  /**
+   * Marks the returns that end every path through a body, so they become its tail expression.
+   * An if/else only ends a body when both branches do, otherwise its arms would not agree on a type.
+   */
+  private collectTailReturns(statements: AST.Statement[]): boolean {
+    const last = statements[statements.length - 1];
+    switch (last?.type) {
+      case 'ReturnStatement':
+        this.tailReturns.add(last);
+        return true;
+      case 'BlockStatement':
+        return this.collectTailReturns(last.body);
+      case 'IfStatement': {
+        if (!last.alternate) return false;
+        const consequent = this.statementsOf(last.consequent);
+        const alternate = this.statementsOf(last.alternate);
+        if (!this.endsInReturn(consequent) || !this.endsInReturn(alternate)) return false;
+        return this.collectTailReturns(consequent) && this.collectTailReturns(alternate);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private endsInReturn(statements: AST.Statement[]): boolean {
+    const last = statements[statements.length - 1];
+    switch (last?.type) {
+      case 'ReturnStatement':
+        return true;
+      case 'BlockStatement':
+        return this.endsInReturn(last.body);
+      case 'IfStatement':
+        return !!last.alternate && this.endsInReturn(this.statementsOf(last.consequent)) &&
+          this.endsInReturn(this.statementsOf(last.alternate));
+      default:
+        return false;
+    }
+  }
+
+  private endsWithExit(block: AST.BlockStatement): boolean {
+    const last = block.body[block.body.length - 1];
+    return last?.type === 'ReturnStatement' || last?.type === 'ThrowStatement';
+  }
+
+  private generateThrownValue(node: AST.Expression, error: string): void {
+    if (error !== 'String') {
+      this.generateExpression(node);
+      return;
+    }
+
+    // throw new Error(message) carries just the message
+    if (node.type === 'NewExpression' && !(node.callee.type === 'Identifier' && this.classes.has(node.callee.name))) {
+      if (node.arguments.length === 0) {
+        this.output += 'String::new()';
+        return;
+      }
+      node = node.arguments[0];
+    }
+
+    this.generateReceiver(node);
+    this.output += '.to_string()';
+  }
+
+  /**
+   * Appends `?` to calls of fallible functions, or `.unwrap()` where there is no Result to propagate into
+   */
+  private generateErrorPropagation(node: AST.CallExpression): void {
+    const callee = node.callee;
+    const key = this.calleeKey(callee, this.currentClass);
+    if (!key || !this.fallible.has(key)) return;
+    if (callee.type === 'Identifier' && this.scopes.some(scope => scope.has(callee.name))) return;
+
+    this.output += this.errorTypes[this.errorTypes.length - 1] ? '?' : '.unwrap()';
+  }
+
+  private generateExpression(node: AST.Expression): void {
+    switch (node.type) {
+      case 'Identifier':
+        if (node.name === 'undefined') {
+          this.output += 'None';
+        } else if (this.constants.has(node.name) && !this.scopes.slice(1).some(scope => scope.has(node.name))) {
+          this.output += this.constants.get(node.name);
+        } else if (this.references.has(node.name)) {
+          this.output += '*' + node.name;
+        } else {
+          this.output += node.name;
+        }
         break;
-      case 'TSNumberKeyword':
-        this.output += 'f64';
+      case 'StringLiteral':
+      case 'NumberLiteral':
+      case 'BooleanLiteral':
+      case 'NullLiteral':
+        this.generateLiteral(node);
         break;
-      case 'TSBooleanKeyword':
-        this.output += 'bool';
+      case 'BinaryExpression':
+        this.generateBinaryExpression(node);
         break;
-      case 'TSVoidKeyword':
-        this.output += '()';
+      case 'UnaryExpression':
+        this.generateUnaryExpression(node);
         break;
-      case 'TSAnyKeyword':
-        this.output += '/* any */ ()';
+      case 'AssignmentExpression':
+        this.generateAssignmentExpression(node);
         break;
-      case 'TSArrayType':
-        this.output += 'Vec<';
-        this.generateTSType(tsType.elementType);
-        this.output += '>';
+      case 'CallExpression':
+        this.generateCallExpression(node);
+        this.generateErrorPropagation(node);
         break;
-      case 'TSTypeReference':
-        // Map TypeScript type references to Rust types
-        const typeName = tsType.typeName.name;
-        switch (typeName) {
-          case 'string':
-            this.output += 'String';
-            break;
-          case 'number':
-            this.output += 'f64';
-            break;
-          case 'boolean':
-            this.output += 'bool';
-            break;
-          case 'void':
-            this.output += '()';
-            break;
-          case 'Promise':
-            // Handle Promise specially
-            this.output += 'Future';
-            break;
-          default:
-            this.output += typeName;
-        }
+      case 'MemberExpression':
+        this.generateMemberExpression(node);
         break;
-      case 'TSUnionType':
-        this.output += '/* union */ ';
-        this.generateTSType(tsType.types[0]);
+      case 'NewExpression':
+        this.generateNewExpression(node);
         break;
-      case 'TSIntersectionType':
-        this.output += '/* intersection */ ';
-        this.generateTSType(tsType.types[0]);
+      case 'ArrayExpression':
+        this.generateArrayExpression(node);
         break;
-      case 'TSFunctionType':
-        this.output += 'fn(';
-        for (let i = 0; i < tsType.parameters.length; i++) {
-          if (i > 0) this.output += ', ';
-          this.generateParameter(tsType.parameters[i]);
+      case 'ObjectExpression':
+        this.generateObjectExpression(node);
+        break;
+      case 'ArrowFunctionExpression':
+        this.generateArrowFunctionExpression(node);
+        break;
+      case 'ConditionalExpression':
+        this.generateConditionalExpression(node);
+        break;
+      case 'AwaitExpression':
+        if (node.argument.type === 'CallExpression') {
+          // f().await? rather than f()?.await
+          this.generateCallExpression(node.argument);
+          this.output += '.await';
+          this.generateErrorPropagation(node.argument);
+        } else {
+          this.generateExpression(node.argument);
+          this.output += '.await';
         }
-        this.output += ') -> ';
-        this.generateTSType(tsType.returnType);
         break;
+      case 'TSNonNullExpression':
+        this.generateReceiver(node.expression);
+        this.output += '.unwrap()';
+        break;
+      case 'FunctionExpression':
+        this.reportLossy(node, 'Function expressions are not translated', 'use an arrow function');
+        this.output += '/* ' + node.type + ' */';
+        break;
+      case 'ThisExpression':
+        this.output += 'self';
+        break;
+    }
+  }
+
+  /**
+   * Writes a number literal stored in a slot of a numeric type: a whole number in a `number` slot as
+   * a float, e.g. `2.0`, and in a slot of any other type with the matching suffix, e.g. `0usize`
+   */
+  private generateNumberLiteral(node: AST.NumberLiteral, numericType: string): void {
+    const value = String(node.value);
+    const isWhole = /^\d+$/.test(value);
+    if (numericType === this.floatType()) {
+      this.output += isWhole ? value + '.0' : value;
+    } else if (!numericType.startsWith('f') && !isWhole) {
+      this.output += value;
+    } else {
+      this.output += value + numericType;
+    }
+  }
+
+  private generateLiteral(node: AST.Literal): void {
+    if (node.type === 'StringLiteral') {
+      this.output += '"' + node.value + '"';
+    } else if (node.type === 'NumberLiteral') {
+      this.output += String(node.value);
+    } else if (node.type === 'BooleanLiteral') {
+      this.output += String(node.value);
+    } else if (node.type === 'NullLiteral') {
+      this.output += 'None';
+    }
+  }
+
+  /**
+   * `expected` is the float slot an arithmetic result goes into, whose type its number operands take
+   */
+  private generateBinaryExpression(node: AST.BinaryExpression, expected?: AST.TSType): void {
+    // Comparisons against null or undefined ask the Option whether it holds a value
+    if (['===', '==', '!==', '!='].includes(node.operator) &&
+        (this.isNullish(node.left) || this.isNullish(node.right))) {
+      this.generateReceiver(this.isNullish(node.right) ? node.left : node.right);
+      this.output += node.operator.startsWith('!') ? '.is_some()' : '.is_none()';
+      return;
+    }
+
+    if (node.operator === '??') {
+      this.generateReceiver(node.left);
+      this.output += '.unwrap_or(';
+      this.generateExpressionAs(node.right, this.optionInner(this.typeOf(node.left)) ?? undefined);
+      this.output += ')';
+      return;
+    }
+
+    // Detect string concatenation
+    if (node.operator === '+' && this.isStringExpression(node.left)) {
+      const parts = this.collectStringConcatParts(node);
+
+      let formatStr = '';
+      const args: AST.Expression[] = [];
+
+      for (const part of parts) {
+        if (part.type === 'StringLiteral') {
+          // Remove surrounding quotes and add to format string
+          formatStr += part.value;
+        } else {
+          formatStr += '{}';
+          args.push(part);
+        }
+      }
+
+      this.output += `format!("${formatStr}"`;
+      for (const arg of args) {
+        this.output += ', ';
+        this.generateExpression(arg);
+      }
+      this.output += ')';
+    } else {
+      const arithmetic = ARITHMETIC_OPERATORS.includes(node.operator) ? expected : undefined;
+      this.generateExpressionAs(node.left, this.operandType(node.left, node.right) ?? arithmetic);
+
+      // Convert JavaScript operators to Rust equivalents
+      let operator = node.operator;
+      if (operator === '===') operator = '==';
+      if (operator === '!==') operator = '!=';
+
+      this.output += ' ' + operator + ' ';
+      // Comparing against a string literal union compares against its variant
+      const isComparison = operator === '==' || operator === '!=';
+      this.generateExpressionAs(node.right, isComparison ? this.typeOf(node.left) : this.operandType(node.right, node.left) ?? arithmetic);
+    }
+  }
+
+  /**
+   * Generates an expression whose value is discarded, where `i++` can be a plain compound assignment
+   */
+  private generateEffect(node: AST.Expression): void {
+    if (node.type === 'UnaryExpression' && (node.operator === '++' || node.operator === '--')) {
+      const one = this.isFloatSlot(this.typeOf(node.argument)) ? '1.0' : '1';
+      this.generateExpression(node.argument);
+      this.output += (node.operator === '++' ? ' += ' : ' -= ') + one;
+    } else {
+      this.generateExpression(node);
+    }
+  }
+
+  private generateUnaryExpression(node: AST.UnaryExpression): void {
+    // Rust has no increment operators, and its compound assignment is `()`, so a block yields the value:
+    // the new one for `++i`, the one saved before the update for `i++`
+    if (node.operator === '++' || node.operator === '--') {
+      let saved = 'previous';
+      while (this.collectIdentifiers(node.argument).includes(saved)) saved += '_';
+
+      this.output += '{ ';
+      if (!node.prefix) {
+        this.output += 'let ' + saved + ' = ';
+        this.generateExpression(node.argument);
+        this.output += '; ';
+      }
+      this.generateEffect(node);
+      this.output += '; ';
+      if (node.prefix) {
+        this.generateExpression(node.argument);
+      } else {
+        this.output += saved;
+      }
+      this.output += ' }';
+      return;
+    }
+
+    this.output += node.operator;
+    this.generateExpression(node.argument);
+  }
+
+  private generateAssignmentExpression(node: AST.AssignmentExpression): void {
+    this.generateExpression(node.left);
+    this.output += ' ' + node.operator + ' ';
+    if (node.operator === '=') {
+      this.generateExpressionAs(node.right, this.typeOf(node.left));
+    } else {
+      this.generateExpressionAs(node.right, this.operandType(node.right, node.left));
+    }
+  }
+
+  private generateCallExpression(node: AST.CallExpression): void {
+    // Handle console.log specially
+    if (node.callee.type === 'MemberExpression' &&
+        node.callee.object.type === 'Identifier' &&
+        node.callee.object.name === 'console' &&
+        node.callee.property.type === 'Identifier' &&
+        node.callee.property.name === 'log') {
+      this.output += 'println!(';
+
+      // Generate format string if there are multiple arguments
+      if (node.arguments.length > 1) {
+        this.output += '"';
+        for (let i = 0; i < node.arguments.length; i++) {
+          if (i > 0) this.output += ' ';
+          this.output += '{:?}';
+        }
+        this.output += '", ';
+        for (let i = 0; i < node.arguments.length; i++) {
+          if (i > 0) this.output += ', ';
+          this.generateExpression(node.arguments[i]);
+        }
+      } else if (node.arguments.length === 1) {
+        this.output += '"{:?}", ';
+        this.generateExpression(node.arguments[0]);
+      }
+
+      this.output += ')';
+    } else if (this.jsonMethod(node) && node.arguments.length > 0) {
+      // JSON goes through serde_json; a bad document or value panics like an uncaught exception
+      this.output += this.jsonMethod(node) === 'stringify' ? 'serde_json::to_string' : 'serde_json::from_str';
+      this.generateTurbofish(node.typeArguments);
+      this.output += '(&';
+      this.generateExpression(node.arguments[0]);
+      this.output += ').unwrap()';
+    } else {
+      this.generateExpression(node.callee);
+      this.generateTurbofish(node.typeArguments);
+      this.output += '(';
+      const declaration = node.callee.type === 'Identifier' ? this.functions.get(node.callee.name) : undefined;
+      this.generateArguments(node.arguments, this.calleeParams(node.callee),
+        this.typeBindings(declaration?.typeParameters, node.typeArguments));
+      this.output += ')';
+    }
+  }
+
+  private jsonMethod(node: AST.CallExpression): 'stringify' | 'parse' | undefined {
+    const callee = node.callee;
+    if (callee.type !== 'MemberExpression' || callee.computed || !this.isIdentifierNamed(callee.object, 'JSON')) {
+      return undefined;
+    }
+    if (this.isIdentifierNamed(callee.property, 'stringify')) return 'stringify';
+    if (this.isIdentifierNamed(callee.property, 'parse')) return 'parse';
+    return undefined;
+  }
+
+  private serdeDerives(): string {
+    return this.usesJson ? ', serde::Serialize, serde::Deserialize' : '';
+  }
+
+  private generateArguments(args: AST.Expression[], params: AST.Parameter[] | undefined, bindings?: Map<string, AST.TSType>): void {
+    for (let i = 0; i < args.length; i++) {
+      if (i > 0) this.output += ', ';
+      const param = params?.[i];
+      const type = param ? this.slotType(param.typeAnnotation, param.optional, param.id) : undefined;
+      this.generateExpressionAs(args[i], type && bindings ? this.substituteTypes(type, bindings) : type);
+    }
+
+    // Rust has no optional parameters, so omitted trailing arguments are passed as None
+    for (let i = args.length; i < (params?.length ?? 0); i++) {
+      if (!params![i].optional) break;
+      if (i > 0) this.output += ', ';
+      this.output += 'None';
+    }
+  }
+
+  private calleeParams(callee: AST.Expression): AST.Parameter[] | undefined {
+    if (callee.type === 'Identifier' && !this.scopes.some(scope => scope.has(callee.name))) {
+      return this.functions.get(callee.name)?.params;
+    }
+    // Methods are found through the class of the receiver
+    if (callee.type === 'MemberExpression' && !callee.computed && callee.property.type === 'Identifier') {
+      const className = callee.object.type === 'ThisExpression' ? this.currentClass : this.classNameOf(this.typeOf(callee.object));
+      return className ? this.methodOf(className, callee.property.name)?.value.params : undefined;
+    }
+    return undefined;
+  }
+
+  private methodOf(className: string, name: string): AST.MethodDefinition | undefined {
+    return this.classes.get(className)?.body.body
+      .find((member): member is AST.MethodDefinition => member.type === 'MethodDefinition' && member.kind === 'method' && member.key.name === name);
+  }
+
+  private classNameOf(type: AST.TSType | undefined): string | undefined {
+    return type?.type === 'TSTypeReference' && this.classes.has(type.typeName.name) ? type.typeName.name : undefined;
+  }
+
+  private constructorParams(callee: AST.Expression): AST.Parameter[] | undefined {
+    if (callee.type !== 'Identifier') return undefined;
+    const constructor = this.classes.get(callee.name)?.body.body
+      .find((member): member is AST.MethodDefinition => member.type === 'MethodDefinition' && member.kind === 'constructor');
+    return constructor?.value.params;
+  }
+
+  private generateMemberExpression(node: AST.MemberExpression): void {
+    // Inside a match arm the variant's fields are bound directly
+    if (!node.computed && node.object.type === 'Identifier' && node.property.type === 'Identifier' &&
+        this.narrowed.get(node.object.name)?.includes(node.property.name)) {
+      this.output += node.property.name;
+      return;
+    }
+
+    // Enum members are paths in Rust: Color.Red becomes Color::Red
+    if (!node.computed && node.object.type === 'Identifier' && node.property.type === 'Identifier' &&
+        this.isEnumName(node.object.name)) {
+      this.output += node.object.name + '::' + node.property.name;
+      return;
+    }
+
+    // Field access and indexing dereference on their own, and `*` would bind looser than them
+    if (node.object.type === 'Identifier' && this.references.has(node.object.name)) {
+      this.output += node.object.name;
+    } else {
+      this.generateExpression(node.object);
+    }
+    if (this.readsLength(node)) {
+      this.output += '.len()';
+      return;
+    }
+    if (node.computed) {
+      this.output += '[';
+      this.generateExpression(node.property);
+      this.output += ']';
+    } else {
+      this.output += '.';
+      if (node.property.type === 'Identifier') {
+        this.output += node.property.name;
+      } else {
+        this.generateExpression(node.property);
+      }
+    }
+  }
+
+  private generateNewExpression(node: AST.NewExpression): void {
+    // In Rust, we use StructName::new() pattern
+    if (node.callee.type === 'Identifier') {
+      this.output += this.constructedType(node.callee.name);
+      this.generateTurbofish(node.typeArguments);
+      this.output += '::new(';
+      const declaration = this.classes.get(node.callee.name);
+      this.generateArguments(node.arguments, this.constructorParams(node.callee),
+        this.typeBindings(declaration?.typeParameters, node.typeArguments));
+      this.output += ')';
+    } else {
+      this.generateExpression(node.callee);
+      this.generateTurbofish(node.typeArguments);
+      this.output += '::new(';
+      for (let i = 0; i < node.arguments.length; i++) {
+        if (i > 0) this.output += ', ';
+        this.generateExpression(node.arguments[i]);
+      }
+      this.output += ')';
+    }
+  }
+
+  /**
+   * The type a constructor call builds, matching what `generateTSType` writes for the same name
+   */
+  private constructedType(name: string): string {
+    // A mapping with type arguments of its own is only a path in its qualified form
+    const mapped = this.options.typeMappings?.[name];
+    if (mapped !== undefined) return mapped.includes('<') ? '<' + mapped + '>' : mapped;
+
+    switch (name) {
+      case 'Array':
+        return 'Vec';
+      case 'Map':
+        return 'std::collections::HashMap';
+      case 'Set':
+        return 'std::collections::HashSet';
       default:
-        this.output += '/* unknown type */';
+        return name;
     }
   }
 
-  private hasDecoration(node: AST.BaseNode, keyword: string): boolean {
-    return node.decorations?.some(d => d.keyword === keyword) || false;
+  /**
+   * Pairs a generic declaration's type parameters with the type arguments written at a call
+   */
+  private typeBindings(params: AST.TSTypeParameter[] | undefined, args: AST.TSType[] | undefined): Map<string, AST.TSType> | undefined {
+    if (!params || !args) return undefined;
+    return new Map(params.slice(0, args.length).map((param, i) => [param.name.name, args[i]]));
+  }
+
+  private substituteTypes(type: AST.TSType, bindings: Map<string, AST.TSType>): AST.TSType {
+    switch (type.type) {
+      case 'TSTypeReference':
+        if (!type.typeArguments) return bindings.get(type.typeName.name) ?? type;
+        return { ...type, typeArguments: type.typeArguments.map(arg => this.substituteTypes(arg, bindings)) };
+      case 'TSArrayType':
+        return { ...type, elementType: this.substituteTypes(type.elementType, bindings) };
+      case 'TSUnionType':
+        return { ...type, types: type.types.map(member => this.substituteTypes(member, bindings)) };
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * Writes explicit type arguments of a call or constructor in expression position, as `::<...>`
+   */
+  private generateTurbofish(args: AST.TSType[] | undefined): void {
+    if (!args || args.length === 0) return;
+    this.output += '::';
+    this.generateTypeArguments(args);
+  }
+
+  private generateArrayExpression(node: AST.ArrayExpression): void {
+    this.output += 'vec![';
+    for (let i = 0; i < node.elements.length; i++) {
+      if (i > 0) this.output += ', ';
+      this.generateExpression(node.elements[i]);
+    }
+    this.output += ']';
+  }
+
+  private generateObjectExpression(node: AST.ObjectExpression): void {
+    // Rust doesn't have object literals, need to use struct initialization
+    this.reportLossy(node, 'Object literals have no Rust equivalent; the fields are written without a struct', 'declare a class or interface and construct that');
+    this.output += '/* object literal - use struct */ {';
+    for (let i = 0; i < node.properties.length; i++) {
+      if (i > 0) this.output += ', ';
+      const prop = node.properties[i];
+      if (prop.type === 'Property') {
+        if (prop.key.type === 'Identifier') {
+          this.output += prop.key.name;
+        }
+        this.output += ': ';
+        this.generateExpression(prop.value);
+      }
+    }
+    this.output += '}';
+  }
+
+  private generateArrowFunctionExpression(node: AST.ArrowFunctionExpression): void {
+    this.scopes.push(new Map());
+    this.returnTypes.push(node.returnType?.typeAnnotation);
+    this.errorTypes.push(undefined);
+    this.output += '|';
+    for (let i = 0; i < node.params.length; i++) {
+      if (i > 0) this.output += ', ';
+      this.generateParameter(node.params[i]);
+    }
+    this.output += '| ';
+
+    if (node.body.type === 'BlockStatement') {
+      this.collectTailReturns(node.body.body);
+      this.generateBlockStatement(node.body, false);
+    } else {
+      this.generateExpression(node.body);
+    }
+    this.errorTypes.pop();
+    this.returnTypes.pop();
+    this.scopes.pop();
+  }
+
+  private generateConditionalExpression(node: AST.ConditionalExpression): void {
+    this.output += 'if ';
+    this.generateExpression(node.test);
+    this.output += ' { ';
+    this.generateExpression(node.consequent);
+    this.output += ' } else { ';
+    this.generateExpression(node.alternate);
+    this.output += ' }';
+  }
+
+  /**
+   * Emits `<T: Bound, U>`; defaults are only legal on type definitions, not on fn or impl
+   */
+  private generateTypeParameters(params: AST.TSTypeParameter[] | undefined, withDefaults: boolean): void {
+    if (!params || params.length === 0) return;
+
+    this.output += '<';
+    for (let i = 0; i < params.length; i++) {
+      if (i > 0) this.output += ', ';
+      const param = params[i];
+      this.output += param.name.name;
+      if (param.constraint) {
+        this.output += ': ';
+        this.generateTSType(param.constraint);
+      }
+      if (withDefaults && param.default) {
+        this.output += ' = ';
+        this.generateTSType(param.default);
+      }
+    }
+    this.output += '>';
+  }
+
+  private generateTypeArguments(args: AST.TSType[] | undefined): void {
+    if (!args || args.length === 0) return;
+
+    this.output += '<';
+    for (let i = 0; i < args.length; i++) {
+      if (i > 0) this.output += ', ';
+      this.generateTSType(args[i]);
+    }
+    this.output += '>';
+  }
+
+  /**
+   * The declared return type, with `Promise<T>` on an async function reduced to T
+   */
+  private resolvedReturnType(node: AST.FunctionDeclaration | AST.FunctionExpression): AST.TSType | undefined {
+    const type = node.returnType?.typeAnnotation;
+    if (node.isAsync && type?.type === 'TSTypeReference' && type.typeName.name === 'Promise') {
+      return this.decoratedType(node, type.typeArguments?.[0] ?? { type: 'TSVoidKeyword' });
+    }
+    return this.decoratedType(node, type);
+  }
+
+  private generateRustType(typeAnnotation: AST.TypeAnnotation): void {
+    const tsType = typeAnnotation.typeAnnotation;
+    this.generateTSType(tsType);
+  }
+
+  private generateTSType(tsType: AST.TSType): void {
+    switch (tsType.type) {
+      case 'TSStringKeyword':
+        this.output += 'String';
+        break;
+      case 'TSNumberKeyword':
+        this.output += this.floatType();
+        break;
+      case 'TSBooleanKeyword':
+        this.output += 'bool';
+        break;
+      case 'TSVoidKeyword':
+        this.output += '()';
+        break;
+      case 'TSAnyKeyword':
+        this.reportLossy(tsType, '`any` has no Rust equivalent and becomes `()`', 'give the value a concrete type');
+        this.output += '/* any */ ()';
+        break;
+      case 'TSArrayType':
+        this.output += 'Vec<';
+        this.generateTSType(tsType.elementType);
+        this.output += '>';
+        break;
+      case 'TSTypeReference':
+        // Map TypeScript type references to Rust types, configured mappings first
+        const typeName = tsType.typeName.name;
+        const mapped = this.options.typeMappings?.[typeName];
+        if (mapped !== undefined) {
+          this.output += mapped;
+          // A mapping with its own type arguments replaces the whole reference
+          if (!mapped.includes('<')) this.generateTypeArguments(tsType.typeArguments);
+          break;
+        }
+        switch (typeName) {
+          case 'string':
+            this.output += 'String';
+            break;
+          case 'number':
+            this.output += this.floatType();
+            break;
+          case 'boolean':
+            this.output += 'bool';
+            break;
+          case 'void':
+            this.output += '()';
+            break;
+          case 'Promise':
+            // Handle Promise specially
+            if (tsType.typeArguments) {
+              this.output += 'impl std::future::Future<Output = ';
+              this.generateTSType(tsType.typeArguments[0]);
+              this.output += '>';
+            } else {
+              this.output += 'Future';
+            }
+            break;
+          case 'Array':
+            this.output += 'Vec';
+            this.generateTypeArguments(tsType.typeArguments);
+            break;
+          case 'Map':
+            this.output += 'std::collections::HashMap';
+            this.generateTypeArguments(tsType.typeArguments);
+            break;
+          case 'Set':
+            this.output += 'std::collections::HashSet';
+            this.generateTypeArguments(tsType.typeArguments);
+            break;
+          default: {
+            // A variant has no type of its own, so the union stands in for it
+            const union = this.variantUnion(typeName);
+            if (union) {
+              this.reportLossy(tsType, `\`${typeName}\` is a variant of \`${union.name}\` and has no Rust type of its own; \`${union.name}\` is used instead`,
+                `take a \`${union.name}\` and match on its tag to read the fields`);
+              this.output += union.name;
+              break;
+            }
+            this.output += typeName;
+            this.generateTypeArguments(tsType.typeArguments);
+          }
+        }
+        break;
+      case 'TSUnionType': {
+        const inner = this.optionInner(tsType);
+        if (inner) {
+          this.output += 'Option<';
+          this.generateTSType(inner);
+          this.output += '>';
+          break;
+        }
+        this.reportLossy(tsType, 'Union type is narrowed to its first member', 'declare an enum for the alternatives');
+        this.output += '/* union */ ';
+        this.generateTSType(tsType.types[0]);
+        break;
+      }
+      case 'TSIntersectionType':
+        this.reportLossy(tsType, 'Intersection type is narrowed to its first member', 'declare a type with the members of both');
+        this.output += '/* intersection */ ';
+        this.generateTSType(tsType.types[0]);
+        break;
+      case 'TSLiteralType':
+        // A lone literal type carries no information beyond its primitive
+        if (tsType.literal.type === 'StringLiteral') {
+          this.output += 'String';
+        } else if (tsType.literal.type === 'NumberLiteral') {
+          this.output += this.floatType();
+        } else {
+          this.output += 'bool';
+        }
+        break;
+      case 'TSFunctionType':
+        this.output += 'fn(';
+        for (let i = 0; i < tsType.parameters.length; i++) {
+          if (i > 0) this.output += ', ';
+          this.generateParameter(tsType.parameters[i]);
+        }
+        this.output += ') -> ';
+        this.generateTSType(tsType.returnType);
+        break;
+      default:
+        this.reportLossy(tsType, `Type ${tsType.type} has no Rust equivalent`, 'use another type, or map it with "typeMappings"');
+        this.output += '/* unknown type */';
+    }
+  }
+
+  private hasDecoration(node: AST.BaseNode, keyword: string): boolean {
+    return this.isEnabled(keyword) && (node.decorations?.some(d => d.keyword === keyword) || false);
+  }
+
+  private getDecoration(node: AST.BaseNode, keyword: string): string | undefined {
+    if (!this.isEnabled(keyword)) return undefined;
+    return node.decorations?.find(d => d.keyword === keyword)?.description;
+  }
+
+  private isEnabled(keyword: string): boolean {
+    return !this.options.decorations || this.options.decorations.includes(keyword);
+  }
+
+  /**
+   * Warns about decorations that have no effect: unknown or misplaced ones, invalid values, and keywords
+   * the configuration leaves out
+   */
+  private checkDecorations(node: AST.BaseNode, parent?: AST.BaseNode): void {
+    for (const decoration of node.decorations ?? []) {
+      const problem = validateDecoration(decoration, decorationTarget(node, parent));
+      if (problem) {
+        this.diagnostics.push(problem);
+      } else if (!this.isEnabled(decoration.keyword)) {
+        this.diagnostics.push({
+          code: DiagnosticCode.DisabledDecoration,
+          severity: 'warning',
+          message: `Decoration \`${decoration.keyword}\` is not enabled in the configuration and has no effect`,
+          span: decoration.position && { start: decoration.position, end: decoration.end ?? decoration.position },
+          fix: { message: `add "${decoration.keyword}" to "decorations", or remove the decoration` },
+        });
+      }
+    }
+    for (const child of this.childNodes(node)) {
+      this.checkDecorations(child, node);
+    }
+  }
+
+  /**
+   * The Rust type `number` maps to
+   */
+  private floatType(): string {
+    return this.options.numbers?.float ?? 'f64';
+  }
+
+  /**
+   * Generates a value that is stored into a slot of a known type, e.g. an object literal
+   * that has to become a variant of a discriminated union
+   */
+  private generateExpressionAs(node: AST.Expression, expected: AST.TSType | undefined): void {
+    const inner = this.optionInner(expected);
+    if (inner) {
+      if (this.isNullish(node)) {
+        this.output += 'None';
+      } else if (this.optionInner(this.typeOf(node))) {
+        this.generateExpression(node);
+      } else {
+        this.output += 'Some(';
+        this.generateExpressionAs(node, inner);
+        this.output += ')';
+      }
+      return;
+    }
+
+    const numeric = this.numericSlotType(expected);
+    if (numeric && numeric !== 'usize' && this.readsLength(node)) {
+      // Lengths are usize, and Rust never converts numbers implicitly
+      this.generateExpression(node);
+      this.output += ' as ' + numeric;
+      return;
+    }
+    if (numeric && node.type === 'NumberLiteral') {
+      this.generateNumberLiteral(node, numeric);
+      return;
+    }
+    if (numeric?.startsWith('f') && node.type === 'BinaryExpression' && ARITHMETIC_OPERATORS.includes(node.operator) &&
+        !this.isStringExpression(node)) {
+      this.generateBinaryExpression(node, expected);
+      return;
+    }
+    if (numeric && node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'NumberLiteral') {
+      this.output += '-';
+      this.generateNumberLiteral(node.argument, numeric);
+      return;
+    }
+
+    const element = expected?.type === 'TSArrayType' ? expected.elementType
+      : expected?.type === 'TSTypeReference' && expected.typeName.name === 'Array' ? expected.typeArguments?.[0] : undefined;
+    if (element && node.type === 'ArrayExpression') {
+      this.output += 'vec![';
+      node.elements.forEach((item, i) => {
+        if (i > 0) this.output += ', ';
+        this.generateExpressionAs(item, element);
+      });
+      this.output += ']';
+      return;
+    }
+
+    const union = expected?.type === 'TSTypeReference'
+      ? this.getUnionEnum(expected.typeName.name) ?? this.variantUnion(expected.typeName.name)
+      : null;
+
+    if (union && node.type === 'StringLiteral' && !union.tag) {
+      const variant = union.variants.find(v => v.tagValue === node.value);
+      if (variant) {
+        this.output += union.name + '::' + variant.name;
+        return;
+      }
+    }
+
+    if (union?.tag && node.type === 'ObjectExpression') {
+      const tagProperty = node.properties.find(p => p.key.type === 'Identifier' && p.key.name === union.tag);
+      const variant = tagProperty ? this.variantForTag(union, tagProperty.value) : undefined;
+      if (variant) {
+        this.generateVariantLiteral(union, variant, node);
+        return;
+      }
+    }
+
+    this.generateExpression(node);
+  }
+
+  private generateVariantLiteral(union: UnionEnum, variant: UnionVariant, node: AST.ObjectExpression): void {
+    this.output += union.name + '::' + variant.name;
+
+    const fields = node.properties.filter(p => !(p.key.type === 'Identifier' && p.key.name === union.tag));
+    const omitted = variant.fields.filter(f => f.optional && !fields.some(p => this.isIdentifierNamed(p.key, f.key.name)));
+    if (fields.length === 0 && omitted.length === 0) {
+      return;
+    }
+
+    this.output += ' { ';
+    for (let i = 0; i < fields.length; i++) {
+      if (i > 0) this.output += ', ';
+      const field = fields[i];
+      if (field.key.type === 'Identifier') {
+        this.output += field.key.name;
+      }
+      const signature = variant.fields.find(f => this.isIdentifierNamed(field.key, f.key.name));
+      const type = signature ? this.slotType(signature.typeAnnotation, signature.optional) : undefined;
+      if (!field.shorthand || this.optionInner(type)) {
+        this.output += ': ';
+        this.generateExpressionAs(field.value, type);
+      }
+    }
+    for (const field of omitted) {
+      if (fields.length > 0 || field !== omitted[0]) this.output += ', ';
+      this.output += field.key.name + ': None';
+    }
+    this.output += ' }';
+  }
+
+  /**
+   * Makes the declarations imported from other files of the project known, so calls,
+   * constructors and constants that refer to them translate like local ones
+   */
+  private collectImports(program: AST.Program): void {
+    for (const statement of program.body) {
+      if (statement.type !== 'ImportDeclaration') continue;
+      const resolved = this.module?.resolveImport(statement.source.value);
+      if (!resolved) continue;
+
+      for (const spec of statement.specifiers) {
+        const local = spec.local?.name ?? spec.imported.name;
+        const declaration = this.exportedDeclaration(resolved.program, spec.imported.name === 'default' ? local : spec.imported.name);
+        if (!declaration) continue;
+
+        if (declaration.type === 'VariableDeclarator') {
+          this.constants.set(local, this.toConstantName(local));
+        } else if (local === declaration.id.name) {
+          this.collectDeclarations(declaration);
+        }
+      }
+    }
+  }
+
+  private exportedDeclaration(program: AST.Program, name: string): NamedDeclaration | AST.VariableDeclarator | undefined {
+    for (const statement of program.body) {
+      if (statement.type !== 'ExportDeclaration') continue;
+      const declaration = statement.declaration;
+      if (declaration.type === 'VariableDeclaration') {
+        const declarator = declaration.declarations.find(decl => decl.id.name === name);
+        if (declarator) return declarator;
+      } else if ('id' in declaration && declaration.id.name === name) {
+        return declaration as NamedDeclaration;
+      }
+    }
+    return undefined;
+  }
+
+  private collectDeclarations(node: AST.BaseNode): void {
+    if (node.type === 'EnumDeclaration') {
+      const declaration = node as AST.EnumDeclaration;
+      this.enums.set(declaration.id.name, declaration);
+    } else if (node.type === 'InterfaceDeclaration') {
+      const declaration = node as AST.InterfaceDeclaration;
+      this.interfaces.set(declaration.id.name, declaration);
+    } else if (node.type === 'TypeAliasDeclaration') {
+      const declaration = node as AST.TypeAliasDeclaration;
+      this.typeAliases.set(declaration.id.name, declaration);
+    } else if (node.type === 'FunctionDeclaration') {
+      const declaration = node as AST.FunctionDeclaration;
+      this.functions.set(declaration.id.name, declaration);
+    } else if (node.type === 'ClassDeclaration') {
+      const declaration = node as AST.ClassDeclaration;
+      this.classes.set(declaration.id.name, declaration);
+    } else if (node.type === 'CallExpression' && this.jsonMethod(node as AST.CallExpression)) {
+      this.usesJson = true;
+    }
+    for (const child of this.childNodes(node)) {
+      this.collectDeclarations(child);
+    }
+  }
+
+  /**
+   * Finds every function that can throw: marked with a throws decoration, or reaching a throw
+   * or a fallible call outside of a try/catch. Repeats until the call graph settles.
+   */
+  private analyzeThrows(): void {
+    const candidates: { key: string; fn: AST.FunctionDeclaration | AST.FunctionExpression; className?: string }[] = [];
+    for (const [name, fn] of this.functions) {
+      candidates.push({ key: name, fn });
+    }
+    for (const [className, declaration] of this.classes) {
+      for (const member of declaration.body.body) {
+        if (member.type === 'MethodDefinition' && member.kind === 'method') {
+          candidates.push({ key: className + '.' + member.key.name, fn: member.value, className });
+        }
+      }
+    }
+
+    for (const candidate of candidates) {
+      const declared = this.getDecoration(candidate.fn, 'throws');
+      if (declared !== undefined) {
+        this.fallible.set(candidate.key, declared.trim().split(/\s+/)[0] || 'String');
+      }
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const candidate of candidates) {
+        if (this.fallible.has(candidate.key)) continue;
+        const error = this.escapingError(candidate.fn.body, candidate.className);
+        if (error) {
+          this.fallible.set(candidate.key, error);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * The error type of the first throw or fallible call that is not caught within node
+   */
+  private escapingError(node: AST.BaseNode, className: string | undefined): string | undefined {
+    switch (node.type) {
+      case 'ThrowStatement':
+        return this.thrownErrorType((node as AST.ThrowStatement).argument);
+      case 'CallExpression': {
+        const key = this.calleeKey((node as AST.CallExpression).callee, className);
+        if (key && this.fallible.has(key)) return this.fallible.get(key);
+        break;
+      }
+      case 'TryStatement': {
+        const statement = node as AST.TryStatement;
+        if (statement.handler) {
+          return this.escapingError(statement.handler.body, className) ??
+            (statement.finalizer && this.escapingError(statement.finalizer, className));
+        }
+        break;
+      }
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassDeclaration':
+        return undefined;
+    }
+
+    for (const child of this.childNodes(node)) {
+      const error = this.escapingError(child, className);
+      if (error) return error;
+    }
+    return undefined;
+  }
+
+  private thrownErrorType(node: AST.Expression): string {
+    if (node.type === 'NewExpression' && node.callee.type === 'Identifier' && this.classes.has(node.callee.name)) {
+      return node.callee.name;
+    }
+    return 'String';
+  }
+
+  private calleeKey(callee: AST.Expression, className: string | undefined): string | undefined {
+    if (callee.type === 'Identifier' && this.functions.has(callee.name)) {
+      return callee.name;
+    }
+    if (callee.type === 'MemberExpression' && callee.object.type === 'ThisExpression' &&
+        callee.property.type === 'Identifier' && className) {
+      return className + '.' + callee.property.name;
+    }
+    return undefined;
+  }
+
+  private getUnionEnum(name: string): UnionEnum | null {
+    const alias = this.typeAliases.get(name);
+    const union = alias?.typeAnnotation.typeAnnotation;
+    if (!union || union.type !== 'TSUnionType') return null;
+
+    // type Direction = "up" | "down"
+    if (union.types.every(t => t.type === 'TSLiteralType' && t.literal.type === 'StringLiteral')) {
+      return {
+        name,
+        variants: union.types.map(t => {
+          const value = String((t as AST.TSLiteralType).literal.value);
+          return { name: this.toVariantName(value), tagValue: value, fields: [] };
+        }),
+      };
+    }
+
+    // type Shape = Circle | Square, where every member has a literal string tag
+    const members = union.types.map(t => t.type === 'TSTypeReference' ? this.interfaces.get(t.typeName.name) : undefined);
+    if (members.some(member => !member)) return null;
+    const declarations = members as AST.InterfaceDeclaration[];
+
+    const tag = declarations[0].body.body
+      .map(property => property.key.name)
+      .find(key => declarations.every(member => this.literalTagOf(member, key) !== undefined));
+    if (!tag) return null;
+
+    return {
+      name,
+      tag,
+      variants: declarations.map(member => ({
+        name: member.id.name,
+        tagValue: this.literalTagOf(member, tag)!,
+        fields: member.body.body.filter(property => property.key.name !== tag),
+      })),
+    };
+  }
+
+  /**
+   * Returns the discriminated union that has the interface `name` as one of its variants
+   */
+  private variantUnion(name: string): UnionEnum | null {
+    if (!this.interfaces.has(name)) return null;
+    for (const alias of this.typeAliases.keys()) {
+      const union = this.getUnionEnum(alias);
+      if (union?.tag !== undefined && union.variants.some(variant => variant.name === name)) {
+        return union;
+      }
+    }
+    return null;
+  }
+
+  private literalTagOf(declaration: AST.InterfaceDeclaration, key: string): string | undefined {
+    const property = declaration.body.body.find(p => p.key.name === key);
+    const type = property?.typeAnnotation?.typeAnnotation;
+    if (type?.type === 'TSLiteralType' && type.literal.type === 'StringLiteral') {
+      return type.literal.value;
+    }
+    return undefined;
+  }
+
+  private toVariantName(value: string): string {
+    const name = value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(part => part.length > 0)
+      .map(part => part[0].toUpperCase() + part.slice(1))
+      .join('');
+    return /^[A-Za-z]/.test(name) ? name : 'V' + name;
+  }
+
+  /**
+   * Returns the union whose tag `node` reads, for `s.kind` where `s` has a discriminated union type
+   */
+  private taggedUnionOf(node: AST.MemberExpression): UnionEnum | null {
+    if (node.computed || node.property.type !== 'Identifier') return null;
+    const type = this.typeOf(node.object);
+    const union = type?.type === 'TSTypeReference' ? this.getUnionEnum(type.typeName.name) : null;
+    return union?.tag === node.property.name ? union : null;
+  }
+
+  private variantForTag(union: UnionEnum, value: AST.Expression): UnionVariant | undefined {
+    return value.type === 'StringLiteral' ? union.variants.find(v => v.tagValue === value.value) : undefined;
+  }
+
+  private matchTagChain(node: AST.IfStatement): {
+    subject: AST.Identifier;
+    union: UnionEnum;
+    arms: { variant: UnionVariant; body: AST.Statement }[];
+    otherwise?: AST.Statement;
+  } | null {
+    const arms: { variant: UnionVariant; body: AST.Statement }[] = [];
+    let subject: AST.Identifier | undefined;
+    let union: UnionEnum | null = null;
+    let current: AST.Statement | undefined = node;
+
+    while (current?.type === 'IfStatement') {
+      const check = this.tagCheck(current.test);
+      if (!check || (subject && check.subject.name !== subject.name)) break;
+      subject = check.subject;
+      union = check.union;
+      arms.push({ variant: check.variant, body: current.consequent });
+      current = current.alternate;
+    }
+
+    if (!subject || !union) return null;
+    return { subject, union, arms, otherwise: current };
+  }
+
+  private tagCheck(test: AST.Expression): { subject: AST.Identifier; union: UnionEnum; variant: UnionVariant } | null {
+    if (test.type !== 'BinaryExpression' || (test.operator !== '===' && test.operator !== '==')) return null;
+
+    const [member, value] = test.left.type === 'MemberExpression' ? [test.left, test.right] : [test.right, test.left];
+    if (member.type !== 'MemberExpression' || member.object.type !== 'Identifier') return null;
+
+    const union = this.taggedUnionOf(member);
+    const variant = union ? this.variantForTag(union, value) : undefined;
+    if (!union || !variant) return null;
+
+    return { subject: member.object, union, variant };
+  }
+
+  private readsMember(node: AST.BaseNode, object: string, property: string): boolean {
+    if (node.type === 'MemberExpression') {
+      const member = node as AST.MemberExpression;
+      if (!member.computed && this.isIdentifierNamed(member.object, object) &&
+          this.isIdentifierNamed(member.property, property)) {
+        return true;
+      }
+    }
+    return this.childNodes(node).some(child => this.readsMember(child, object, property));
+  }
+
+  private statementsOf(node: AST.Statement): AST.Statement[] {
+    return node.type === 'BlockStatement' ? node.body : [node];
+  }
+
+  private isEnumName(name: string): boolean {
+    // A local binding with the same name shadows the enum
+    return this.enums.has(name) && !this.scopes.some(scope => scope.has(name));
+  }
+
+  private declare(name: string, type: AST.TSType | undefined): void {
+    this.scopes[this.scopes.length - 1].set(name, type);
+  }
+
+  private lookupType(name: string): AST.TSType | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        return this.scopes[i].get(name);
+      }
+    }
+    return undefined;
+  }
+
+  private typeOf(node: AST.Expression): AST.TSType | undefined {
+    if (node.type === 'Identifier') {
+      return this.lookupType(node.name);
+    }
+    if (node.type === 'MemberExpression' && node.object.type === 'ThisExpression' &&
+        node.property.type === 'Identifier') {
+      return this.classFields.get(node.property.name);
+    }
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier' && this.calleeParams(node.callee)) {
+      return this.functions.get(node.callee.name)?.returnType?.typeAnnotation;
+    }
+    if (node.type === 'NewExpression' && node.callee.type === 'Identifier' && this.classes.has(node.callee.name)) {
+      return { type: 'TSTypeReference', typeName: node.callee, typeArguments: node.typeArguments };
+    }
+    if (this.readsLength(node)) {
+      return { type: 'TSTypeReference', typeName: { type: 'Identifier', name: 'usize' } };
+    }
+    if (node.type === 'TSNonNullExpression') {
+      return this.optionInner(this.typeOf(node.expression)) ?? undefined;
+    }
+    if (node.type === 'BinaryExpression' && node.operator === '??') {
+      return this.optionInner(this.typeOf(node.left)) ?? undefined;
+    }
+    if (node.type === 'BinaryExpression' && ARITHMETIC_OPERATORS.includes(node.operator) && !this.isStringExpression(node)) {
+      // A literal operand adapts to the other one, which decides the type
+      const [first, second] = this.numberLiteralOf(node.left) ? [node.right, node.left] : [node.left, node.right];
+      const type = this.typeOf(first);
+      return this.numericSlotType(type) ? type : this.typeOf(second);
+    }
+    return this.inferType(node);
+  }
+
+  private inferType(node: AST.Expression | undefined): AST.TSType | undefined {
+    switch (node?.type) {
+      case 'StringLiteral':
+        return { type: 'TSStringKeyword' };
+      case 'NumberLiteral':
+        return { type: 'TSNumberKeyword' };
+      case 'BooleanLiteral':
+        return { type: 'TSBooleanKeyword' };
+      case 'UnaryExpression':
+        if (node.operator === '!') return { type: 'TSBooleanKeyword' };
+        return node.operator === '-' || node.operator === '+' ? this.inferType(node.argument) : undefined;
+      case 'NewExpression':
+        if (node.callee.type === 'Identifier') {
+          return { type: 'TSTypeReference', typeName: { type: 'Identifier', name: node.callee.name } };
+        }
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private constantType(decl: AST.VariableDeclarator): AST.TSType | undefined {
+    const type = this.decoratedType(decl.id, decl.typeAnnotation?.typeAnnotation ?? this.inferType(decl.init));
+    if (type?.type === 'TSStringKeyword' || type?.type === 'TSNumberKeyword' || type?.type === 'TSBooleanKeyword' ||
+        this.numericTypeName(type)) {
+      return type;
+    }
+    return undefined;
+  }
+
+  /**
+   * Applies a `type: u32` style decoration to a number slot, including number[] and number | null
+   */
+  private decoratedType(node: AST.BaseNode, type: AST.TSType | undefined): AST.TSType | undefined {
+    const numeric = this.getDecoration(node, 'type')?.trim().split(/\s+/)[0];
+    if (!numeric || !NUMERIC_TYPES.includes(numeric)) {
+      return type;
+    }
+
+    const replacement: AST.TSType = { type: 'TSTypeReference', typeName: { type: 'Identifier', name: numeric } };
+    if (!type || this.isNumberType(type)) {
+      return replacement;
+    }
+    if (type.type === 'TSArrayType' && this.isNumberType(type.elementType)) {
+      return { type: 'TSArrayType', elementType: replacement };
+    }
+    const inner = this.optionInner(type);
+    if (inner && this.isNumberType(inner)) {
+      return { type: 'TSUnionType', types: [replacement, { type: 'TSNullKeyword' }] };
+    }
+    return type;
+  }
+
+  private isNumberType(type: AST.TSType): boolean {
+    return type.type === 'TSNumberKeyword' || (type.type === 'TSTypeReference' && type.typeName.name === 'number');
+  }
+
+  /**
+   * The Rust numeric type of a slot, if it is one other than the float type that number maps to
+   */
+  private numericTypeName(type: AST.TSType | undefined): string | undefined {
+    if (type?.type === 'TSTypeReference' && NUMERIC_TYPES.includes(type.typeName.name)) {
+      return type.typeName.name;
+    }
+    return undefined;
+  }
+
+  /**
+   * The Rust numeric type of a slot, counting `number` as the float type it maps to
+   */
+  private numericSlotType(type: AST.TSType | undefined): string | undefined {
+    return type && this.isNumberType(type) ? this.floatType() : this.numericTypeName(type);
+  }
+
+  private isFloatSlot(type: AST.TSType | undefined): boolean {
+    return this.numericSlotType(type)?.startsWith('f') ?? false;
+  }
+
+  /**
+   * The type a number literal operand takes from the other operand when that is a float, as `x * 2`
+   * needs `2.0` in Rust
+   */
+  private operandType(operand: AST.Expression, other: AST.Expression): AST.TSType | undefined {
+    if (!this.numberLiteralOf(operand) && !this.readsLength(operand)) return undefined;
+    const type = this.typeOf(other);
+    return this.isFloatSlot(type) ? type : undefined;
+  }
+
+  private numberLiteralOf(node: AST.Expression): AST.NumberLiteral | undefined {
+    const literal = node.type === 'UnaryExpression' && node.operator === '-' ? node.argument : node;
+    return literal.type === 'NumberLiteral' ? literal : undefined;
+  }
+
+  /**
+   * Picks integer types for unannotated numeric variables in each function: `usize` for values
+   * used as an index or compared with `.length`, `i64` (or the configured integer type) for values that never mix with fractions
+   */
+  private inferNumericTypes(root: AST.BaseNode): void {
+    const declarators = new Map<string, AST.VariableDeclarator | null>();  // null when a name is declared twice
+    const uses = new Map<string, { parent: AST.BaseNode; node: AST.Identifier }[]>();
+
+    const visit = (node: AST.BaseNode, parent: AST.BaseNode | undefined): void => {
+      if (node !== root && ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'].includes(node.type)) {
+        this.inferNumericTypes(node);
+        return;
+      }
+      if (node.type === 'VariableDeclarator') {
+        const decl = node as AST.VariableDeclarator;
+        declarators.set(decl.id.name, declarators.has(decl.id.name) ? null : decl);
+      } else if (node.type === 'Identifier' && parent && !this.isDeclaredName(node as AST.Identifier, parent)) {
+        const identifier = node as AST.Identifier;
+        uses.set(identifier.name, [...(uses.get(identifier.name) ?? []), { parent, node: identifier }]);
+      }
+      for (const child of this.childNodes(node)) {
+        visit(child, node);
+      }
+    };
+    visit(root, undefined);
+
+    const integers = new Set<string>();
+    for (const [name, decl] of declarators) {
+      if (decl && decl.init && !decl.typeAnnotation && !this.hasDecoration(decl.id, 'type')) {
+        integers.add(name);
+      }
+    }
+
+    // Start from every candidate and drop the ones that meet a fraction until nothing changes
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const name of integers) {
+        const decl = declarators.get(name)!;
+        const mixes = (uses.get(name) ?? []).some(use => !this.staysInteger(use.node, use.parent, integers));
+        if (!this.isIntegerExpression(decl.init!, integers) || mixes) {
+          integers.delete(name);
+          changed = true;
+        }
+      }
+    }
+
+    for (const name of integers) {
+      const decl = declarators.get(name)!;
+      const isIndex = this.isLengthExpression(decl.init!) || (uses.get(name) ?? []).some(use =>
+        (use.parent.type === 'MemberExpression' && (use.parent as AST.MemberExpression).computed &&
+          (use.parent as AST.MemberExpression).property === use.node) ||
+        (use.parent.type === 'BinaryExpression' && [(use.parent as AST.BinaryExpression).left, (use.parent as AST.BinaryExpression).right]
+          .some(operand => this.isLengthExpression(operand))));
+      this.inferredTypes.set(decl, { type: 'TSTypeReference', typeName: { type: 'Identifier', name: isIndex ? 'usize' : this.options.numbers?.integer ?? 'i64' } });
+    }
+  }
+
+  /**
+   * Whether a use of an integer variable keeps it integral and away from f64 slots
+   */
+  private staysInteger(node: AST.Identifier, parent: AST.BaseNode, integers: Set<string>): boolean {
+    switch (parent.type) {
+      case 'BinaryExpression': {
+        const binary = parent as AST.BinaryExpression;
+        const other = binary.left === node ? binary.right : binary.left;
+        if (binary.operator === '/' || binary.operator === '**') return false;
+        if (['&&', '||', '??'].includes(binary.operator) || this.isStringExpression(other)) return true;
+        return this.isIntegerExpression(other, integers);
+      }
+      case 'AssignmentExpression': {
+        const assignment = parent as AST.AssignmentExpression;
+        if (assignment.left === node) {
+          return assignment.operator !== '/=' && this.isIntegerExpression(assignment.right, integers);
+        }
+        return assignment.left.type === 'Identifier' && integers.has(assignment.left.name);
+      }
+      case 'CallExpression': {
+        const call = parent as AST.CallExpression;
+        if (call.callee === node || this.isConsoleLog(call.callee)) return true;
+
+        // Receivers have no types yet, so a method is known by its name when only one class declares it;
+        // a parameter that stays unknown is more likely a float than an integer
+        const method = call.callee.type === 'MemberExpression' && !call.callee.computed && call.callee.property.type === 'Identifier'
+          ? call.callee.property.name : undefined;
+        const methods = method ? [...this.classes.keys()].flatMap(name => this.methodOf(name, method) ?? []) : [];
+        const params = this.calleeParams(call.callee) ?? (methods.length === 1 ? methods[0].value.params : undefined);
+        const param = params?.[call.arguments.indexOf(node)];
+        return !!param && !!this.numericTypeName(this.slotType(param.typeAnnotation, false, param.id));
+      }
+      case 'VariableDeclarator':
+        return integers.has((parent as AST.VariableDeclarator).id.name);
+      case 'Property':
+        return (parent as AST.Property).value !== node;
+      case 'ReturnStatement':
+      case 'ArrayExpression':
+        return false;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Identifiers that name something rather than read a variable: declarations and non-computed members
+   */
+  private isDeclaredName(node: AST.Identifier, parent: AST.BaseNode): boolean {
+    if (parent.type === 'VariableDeclarator') return (parent as AST.VariableDeclarator).id === node;
+    if (parent.type === 'MemberExpression') {
+      const member = parent as AST.MemberExpression;
+      return !member.computed && member.property === node;
+    }
+    return false;
+  }
+
+  private isIntegerExpression(node: AST.Expression, integers: Set<string>): boolean {
+    switch (node.type) {
+      case 'NumberLiteral':
+        return Number.isInteger(node.value);
+      case 'Identifier':
+        return integers.has(node.name);
+      case 'UnaryExpression':
+        return ['-', '+', '++', '--'].includes(node.operator) && this.isIntegerExpression(node.argument, integers);
+      case 'BinaryExpression':
+        return INTEGER_OPERATORS.includes(node.operator) &&
+          this.isIntegerExpression(node.left, integers) && this.isIntegerExpression(node.right, integers);
+      default:
+        return this.isLengthExpression(node);
+    }
+  }
+
+  private isLengthExpression(node: AST.Expression): boolean {
+    return node.type === 'MemberExpression' && !node.computed && this.isIdentifierNamed(node.property, 'length') &&
+      node.object.type !== 'ThisExpression';
+  }
+
+  /**
+   * `.length` of a collection or string, which Rust reads with `.len()`; a class may have a field of that name
+   */
+  private readsLength(node: AST.Expression): boolean {
+    return this.isLengthExpression(node) && !this.classNameOf(this.typeOf((node as AST.MemberExpression).object));
+  }
+
+  private isConsoleLog(callee: AST.Expression): boolean {
+    return callee.type === 'MemberExpression' && this.isIdentifierNamed(callee.object, 'console') &&
+      this.isIdentifierNamed(callee.property, 'log');
+  }
+
+  private isConstantExpression(node: AST.Expression): boolean {
+    switch (node.type) {
+      case 'StringLiteral':
+      case 'NumberLiteral':
+      case 'BooleanLiteral':
+        return true;
+      case 'UnaryExpression':
+        return node.prefix && ['-', '+', '!'].includes(node.operator) && this.isConstantExpression(node.argument);
+      case 'BinaryExpression':
+        // String concatenation turns into format!, which is not const
+        return !this.isStringExpression(node) && this.isConstantExpression(node.left) && this.isConstantExpression(node.right);
+      default:
+        return false;
+    }
+  }
+
+  private toConstantName(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+  }
+
+  /**
+   * The type of a slot a value is stored in; optional members and parameters hold an Option
+   */
+  private slotType(annotation: AST.TypeAnnotation | undefined, optional?: boolean, decorated?: AST.BaseNode): AST.TSType | undefined {
+    const type = decorated ? this.decoratedType(decorated, annotation?.typeAnnotation) : annotation?.typeAnnotation;
+    if (!type || !optional || this.optionInner(type)) {
+      return type;
+    }
+    return { type: 'TSUnionType', types: [type, { type: 'TSUndefinedKeyword' }] };
+  }
+
+  /**
+   * Returns T for `T | null` and `T | undefined`, or null when the type is not nullable
+   */
+  private optionInner(type: AST.TSType | undefined): AST.TSType | null {
+    if (type?.type !== 'TSUnionType') return null;
+
+    const present = type.types.filter(t => t.type !== 'TSNullKeyword' && t.type !== 'TSUndefinedKeyword');
+    if (present.length === type.types.length || present.length === 0) return null;
+
+    return present.length === 1 ? present[0] : { type: 'TSUnionType', types: present };
+  }
+
+  private isNullish(node: AST.Expression): boolean {
+    return node.type === 'NullLiteral' || this.isIdentifierNamed(node, 'undefined');
+  }
+
+  private matchPresenceCheck(test: AST.Expression): { name: string; inner: AST.TSType } | null {
+    if (test.type !== 'BinaryExpression' || (test.operator !== '!==' && test.operator !== '!=')) return null;
+
+    const subject = this.isNullish(test.right) ? test.left : this.isNullish(test.left) ? test.right : null;
+    if (subject?.type !== 'Identifier') return null;
+
+    const inner = this.optionInner(this.lookupType(subject.name));
+    return inner ? { name: subject.name, inner } : null;
+  }
+
+  private isMapType(type: AST.TSType | undefined): boolean {
+    return type?.type === 'TSTypeReference' && type.typeName.name === 'Map';
+  }
+
+  private isArrayType(type: AST.TSType | undefined): boolean {
+    return type?.type === 'TSArrayType' || (type?.type === 'TSTypeReference' && type.typeName.name === 'Array');
+  }
+
+  private isIdentifierNamed(node: AST.Expression, name: string): boolean {
+    return node.type === 'Identifier' && node.name === name;
+  }
+
+  private assignsTo(node: AST.BaseNode | undefined, name: string): boolean {
+    if (!node) return false;
+
+    let target: AST.Expression | undefined;
+    if (node.type === 'AssignmentExpression') {
+      target = (node as AST.AssignmentExpression).left;
+    } else if (node.type === 'UnaryExpression' && ['++', '--'].includes((node as AST.UnaryExpression).operator)) {
+      target = (node as AST.UnaryExpression).argument;
+    }
+    if (target && this.isIdentifierNamed(target, name)) return true;
+
+    return this.childNodes(node).some(child => this.assignsTo(child, name));
+  }
+
+  private collectMutablyIterated(node: AST.BaseNode): string[] {
+    if (node.type === 'ForOfStatement') {
+      const loop = node as AST.ForOfStatement;
+      if (loop.right.type === 'Identifier' && this.hasDecoration(loop.left, 'mut')) {
+        return [loop.right.name, ...this.collectMutablyIterated(loop.body)];
+      }
+    }
+    return this.childNodes(node).flatMap(child => this.collectMutablyIterated(child));
+  }
+
+  private collectIdentifiers(node: AST.BaseNode): string[] {
+    if (node.type === 'Identifier') {
+      return [(node as AST.Identifier).name];
+    }
+    return this.childNodes(node).flatMap(child => this.collectIdentifiers(child));
+  }
+
+  private childNodes(node: AST.BaseNode): AST.BaseNode[] {
+    const children: AST.BaseNode[] = [];
+    for (const value of Object.values(node)) {
+      const candidates = Array.isArray(value) ? value : [value];
+      for (const candidate of candidates) {
+        if (candidate && typeof candidate === 'object' && typeof candidate.type === 'string') {
+          children.push(candidate);
+        }
+      }
+    }
+    return children;
   }
 
   private collectStringConcatParts(node: AST.Expression): AST.Expression[] {
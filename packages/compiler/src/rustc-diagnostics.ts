@@ -0,0 +1,165 @@
+/**
+ * ScriptRust Rust Diagnostics - Reports rustc's errors on generated code at their place in the TypeScript source
+ */
+
+import { Position } from './ast.js';
+import { Diagnostic, DiagnosticCode, RelatedInformation, Severity, Span } from './diagnostics.js';
+import { normalizePath } from './module-graph.js';
+import { SourceMap, originalPositionFor } from './source-map.js';
+
+/**
+ * A generated file, named as rustc reports it, with the map back to its source
+ */
+export interface GeneratedFile {
+  path: string;
+  fileName: string;  // The TypeScript source
+  sourceMap: SourceMap;
+}
+
+/**
+ * The subset of rustc's JSON diagnostic format the compiler reads
+ */
+interface RustcMessage {
+  message: string;
+  code: { code: string } | null;
+  level: string;
+  spans: RustcSpan[];
+  children: RustcMessage[];
+}
+
+interface RustcSpan {
+  file_name: string;
+  line_start: number;
+  line_end: number;
+  column_start: number;
+  column_end: number;
+  is_primary: boolean;
+  label: string | null;
+}
+
+/**
+ * Reads the output of `rustc --error-format=json`, or of `cargo check --message-format=json`,
+ * one JSON object per line. Summaries such as "aborting due to 2 previous errors" are left out.
+ */
+export function parseRustcDiagnostics(output: string, files: GeneratedFile[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    if (!line.trim().startsWith('{')) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    // Cargo wraps each compiler message and interleaves build progress
+    const message = isRecord(parsed) && parsed.reason === 'compiler-message' ? parsed.message : parsed;
+    if (!isRustcMessage(message)) continue;
+    if (message.level === 'failure-note' || (message.spans.length === 0 && /^aborting due to/.test(message.message))) continue;
+
+    diagnostics.push(toDiagnostic(message, files));
+  }
+
+  return diagnostics;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isRustcMessage(value: unknown): value is RustcMessage {
+  return isRecord(value) &&
+    typeof value.message === 'string' &&
+    typeof value.level === 'string' &&
+    (value.code === null || (isRecord(value.code) && typeof value.code.code === 'string')) &&
+    Array.isArray(value.spans) && value.spans.every(isRustcSpan) &&
+    Array.isArray(value.children) && value.children.every(isRustcMessage);
+}
+
+function isRustcSpan(value: unknown): value is RustcSpan {
+  return isRecord(value) &&
+    typeof value.file_name === 'string' &&
+    ['line_start', 'line_end', 'column_start', 'column_end'].every(key => typeof value[key] === 'number') &&
+    typeof value.is_primary === 'boolean' &&
+    (value.label === null || typeof value.label === 'string');
+}
+
+function toDiagnostic(message: RustcMessage, files: GeneratedFile[]): Diagnostic {
+  const primary = message.spans.find(span => span.is_primary) ?? message.spans[0];
+  const location = primary && mapSpan(primary, files);
+
+  let text = message.message;
+  if (primary?.label) text += `: ${primary.label}`;
+  if (message.code) text += ` (${message.code.code})`;
+  if (primary && !location) text += ` at ${primary.file_name}:${primary.line_start}:${primary.column_start}`;
+
+  const diagnostic: Diagnostic = {
+    code: DiagnosticCode.RustCompileError,
+    severity: severityOf(message.level),
+    message: text,
+  };
+
+  if (location) {
+    diagnostic.span = location.span;
+    diagnostic.file = location.fileName;
+
+    // Related spans can only be shown when they are in the same file
+    const related: RelatedInformation[] = [];
+    const secondary = message.spans.filter(span => span !== primary && span.label).map(span => ({ message: span.label!, span }));
+    const notes = message.children.filter(child => child.level === 'note' && child.spans.length > 0)
+      .map(child => ({ message: child.message, span: child.spans.find(span => span.is_primary) ?? child.spans[0] }));
+
+    for (const entry of [...secondary, ...notes]) {
+      const mapped = mapSpan(entry.span, files);
+      if (!mapped || mapped.fileName !== location.fileName) continue;
+      // Several Rust spans often map to the same statement
+      if (related.some(other => other.message === entry.message && other.span.start.offset === mapped.span.start.offset)) continue;
+      related.push({ message: entry.message, span: mapped.span });
+    }
+    if (related.length > 0) diagnostic.related = related;
+  }
+
+  // Suggested replacements apply to the Rust code, so only the advice carries over
+  const help = message.children.find(child => child.level === 'help');
+  if (help) diagnostic.fix = { message: help.message };
+
+  return diagnostic;
+}
+
+function severityOf(level: string): Severity {
+  if (level.startsWith('error')) return 'error';
+  return level === 'warning' ? 'warning' : 'info';
+}
+
+/**
+ * Finds where a span of generated code came from. Source maps point at the start of each statement,
+ * so a span that maps no further than its start is widened to the rest of that source line.
+ */
+function mapSpan(span: RustcSpan, files: GeneratedFile[]): { fileName: string; span: Span } | undefined {
+  const file = files.find(candidate => normalizePath(candidate.path) === normalizePath(span.file_name));
+  const source = file?.sourceMap.sourcesContent?.[0];
+  if (!file || source === undefined) return undefined;
+
+  const start = originalPositionFor(file.sourceMap, span.line_start, span.column_start);
+  if (!start) return undefined;
+  const end = originalPositionFor(file.sourceMap, span.line_end, span.column_end);
+
+  const lines = source.split('\n');
+  const after = end && (end.line > start.line || (end.line === start.line && end.column > start.column));
+  const endPosition = after ? end : { line: start.line, column: (lines[start.line - 1] ?? '').replace(/\r$/, '').length + 1 };
+
+  return {
+    fileName: file.fileName,
+    span: { start: positionIn(lines, start.line, start.column), end: positionIn(lines, endPosition.line, endPosition.column) },
+  };
+}
+
+function positionIn(lines: string[], line: number, column: number): Position {
+  let offset = column - 1;
+  for (let index = 0; index < line - 1 && index < lines.length; index++) {
+    offset += lines[index].length + 1;
+  }
+  return { line, column, offset };
+}
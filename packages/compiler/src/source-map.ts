@@ -0,0 +1,214 @@
+/**
+ * ScriptRust Source Maps - Links generated JavaScript or Rust back to the ScriptRust input
+ */
+
+import { Position } from './ast.js';
+
+/**
+ * A source map in the standard revision 3 format
+ */
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
+}
+
+/**
+ * One decoded segment; lines and columns are 1-based like the rest of the compiler
+ */
+export interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  originalLine: number;
+  originalColumn: number;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Collects mappings while a code generator appends to its output, then renders them as a source map.
+ * Marks are kept as offsets into the output so they survive text inserted before them.
+ */
+export class SourceMapBuilder {
+  private marks: { offset: number; original: Position }[] = [];
+
+  /**
+   * Maps the next character written at `offset` to `original`
+   */
+  mark(offset: number, original: Position | undefined): void {
+    if (!original) return;
+
+    const last = this.marks[this.marks.length - 1];
+    if (last && last.offset === offset) return;  // The outermost node starting here wins
+    this.marks.push({ offset, original });
+  }
+
+  /**
+   * Accounts for `length` characters inserted at `offset` after some marks were recorded
+   */
+  insert(offset: number, length: number): void {
+    for (const mark of this.marks) {
+      if (mark.offset > offset) mark.offset += length;
+    }
+  }
+
+  build(output: string, file: string, source: string, sourceName: string): SourceMap {
+    const mappings: Mapping[] = [];
+    let line = 1;
+    let column = 1;
+    let offset = 0;
+
+    for (const mark of [...this.marks].sort((a, b) => a.offset - b.offset)) {
+      for (; offset < mark.offset && offset < output.length; offset++) {
+        if (output[offset] === '\n') {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+      }
+      mappings.push({
+        generatedLine: line,
+        generatedColumn: column,
+        originalLine: mark.original.line,
+        originalColumn: mark.original.column,
+      });
+    }
+
+    return {
+      version: 3,
+      file,
+      sources: [sourceName],
+      sourcesContent: [source],
+      names: [],
+      mappings: encodeMappings(mappings),
+    };
+  }
+}
+
+/**
+ * Encodes mappings for a single-source map into the `mappings` field
+ */
+export function encodeMappings(mappings: Mapping[]): string {
+  const lines: string[][] = [];
+  let previousColumn = 0;
+  let previousOriginalLine = 0;
+  let previousOriginalColumn = 0;
+
+  for (const mapping of mappings) {
+    while (lines.length < mapping.generatedLine) {
+      lines.push([]);
+      previousColumn = 0;  // Generated columns restart on every line
+    }
+
+    const column = mapping.generatedColumn - 1;
+    const originalLine = mapping.originalLine - 1;
+    const originalColumn = mapping.originalColumn - 1;
+    lines[mapping.generatedLine - 1].push(
+      encodeVLQ(column - previousColumn) +
+      encodeVLQ(0) +  // Source index; there is only one source
+      encodeVLQ(originalLine - previousOriginalLine) +
+      encodeVLQ(originalColumn - previousOriginalColumn));
+
+    previousColumn = column;
+    previousOriginalLine = originalLine;
+    previousOriginalColumn = originalColumn;
+  }
+
+  return lines.map(segments => segments.join(',')).join(';');
+}
+
+export function decodeMappings(mappings: string): Mapping[] {
+  const result: Mapping[] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  mappings.split(';').forEach((line, index) => {
+    let column = 0;
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+
+      const fields = decodeVLQ(segment);
+      column += fields[0];
+      if (fields.length < 4) continue;  // A generated position with no original
+
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      result.push({
+        generatedLine: index + 1,
+        generatedColumn: column + 1,
+        originalLine: originalLine + 1,
+        originalColumn: originalColumn + 1,
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Finds the original position of a generated line and column. A mapping stays in effect until the next
+ * one, so lines in the middle of a generated statement resolve to where that statement started.
+ */
+export function originalPositionFor(map: SourceMap, line: number, column: number): { line: number; column: number } | null {
+  let found: Mapping | null = null;
+
+  for (const mapping of decodeMappings(map.mappings)) {
+    if (mapping.generatedLine > line || (mapping.generatedLine === line && mapping.generatedColumn > column)) break;
+    found = mapping;
+  }
+
+  return found && { line: found.originalLine, column: found.originalColumn };
+}
+
+/**
+ * Rewrites every `<generatedFile>:line:column` reference in tool output, such as rustc errors,
+ * to the matching place in `originalFile`
+ */
+export function remapLocations(text: string, generatedFile: string, originalFile: string, map: SourceMap): string {
+  const escaped = generatedFile.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`${escaped}:(\\d+):(\\d+)`, 'g');
+
+  return text.replace(pattern, (reference, line: string, column: string) => {
+    const original = originalPositionFor(map, Number(line), Number(column));
+    return original ? `${originalFile}:${original.line}:${original.column}` : reference;
+  });
+}
+
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+
+  return encoded;
+}
+
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,69 @@
+/**
+ * ScriptRust Watcher - Reports changed source files so the CLI can recompile them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WatchOptions {
+  debounce?: number;      // Milliseconds without changes before a burst is reported
+  watch?: WatchFunction;  // Defaults to a recursive `fs.watch`
+}
+
+/**
+ * Starts watching a directory, calling `listener` with the changed file's path relative to it
+ */
+export type WatchFunction = (directory: string, listener: (fileName: string | null) => void) => { close(): void };
+
+const watchRecursively: WatchFunction = (directory, listener) =>
+  fs.watch(directory, { recursive: true }, (_event, fileName) => listener(fileName?.toString() ?? null));
+
+/**
+ * Watches the TypeScript files below `target`, a file's directory or a directory itself, and calls
+ * `onChange` once per burst of changes, as editors often write a file several times in a row.
+ * Returns a function that stops watching.
+ */
+export function watchSources(target: string, onChange: (files: string[]) => void, options: WatchOptions = {}): () => void {
+  const directory = fs.statSync(target).isDirectory() ? target : path.dirname(target);
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = (options.watch ?? watchRecursively)(directory, fileName => {
+    if (!fileName || !isSourceFile(fileName)) return;
+
+    changed.add(path.join(directory, fileName));
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const files = [...changed];
+      changed.clear();
+      onChange(files);
+    }, options.debounce ?? 100);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Lists the TypeScript files below a directory, leaving out dependencies and hidden directories
+ */
+export function listSourceFiles(directory: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) files.push(...listSourceFiles(fullPath));
+    } else if (isSourceFile(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+function isSourceFile(fileName: string): boolean {
+  return fileName.endsWith('.ts') && !fileName.endsWith('.d.ts') && !fileName.split(/[\\/]/).includes('node_modules');
+}
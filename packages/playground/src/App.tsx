@@ -77,7 +77,9 @@ function App() {
       const result = compiler.compile(code);
 
       if (result.errors.length > 0) {
-        setErrors(result.errors.map(e => e.message).join('\n'));
+        setErrors(result.errors.map(e =>
+          e.line ? `[${e.code}] line ${e.line}, column ${e.column}: ${e.message}` : e.message
+        ).join('\n'));
         setActiveTab('errors');
       } else {
         setCompiledCode(result.code);